@@ -0,0 +1,17 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { StorageDriver } from '../src/lib/storage/document-store';
+
+/**
+ * Stores the database document in a JSON file. Writes go to a temporary file
+ * first and are renamed into place so a crash never leaves a truncated file.
+ */
+export const createFileDriver = (file: string): StorageDriver => ({
+  read: () => (existsSync(file) ? readFileSync(file, 'utf8') : null),
+  write: (contents) => {
+    mkdirSync(dirname(file), { recursive: true });
+    const temp = `${file}.tmp`;
+    writeFileSync(temp, contents);
+    renameSync(temp, file);
+  }
+});
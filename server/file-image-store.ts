@@ -0,0 +1,43 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ImageStore } from '../src/lib/storage/image-store';
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp' };
+
+// Ids come from request paths, so anything that could leave the directory is refused.
+const SAFE_ID = /^[\w-]+$/;
+
+/** Stores each image as a file of its own in `dir`, named after its id. */
+export const createFileImageStore = (dir: string): ImageStore => {
+  const existing = (id: string) =>
+    SAFE_ID.test(id)
+      ? Object.entries(EXTENSIONS)
+          .map(([type, extension]) => ({ type, file: join(dir, `${id}.${extension}`) }))
+          .find(({ file }) => existsSync(file))
+      : undefined;
+
+  const remove = async (id: string) => {
+    const found = existing(id);
+    if (found) rmSync(found.file);
+  };
+
+  return {
+    put: async (id, dataUrl) => {
+      const match = /^data:(image\/[a-z]+);base64,(.*)$/.exec(dataUrl);
+      const extension = match && EXTENSIONS[match[1]];
+      if (!SAFE_ID.test(id) || !extension) {
+        throw new Error(`Cannot store image ${id}.`);
+      }
+      await remove(id);
+      mkdirSync(dir, { recursive: true });
+      const file = join(dir, `${id}.${extension}`);
+      writeFileSync(`${file}.tmp`, Buffer.from(match[2], 'base64'));
+      renameSync(`${file}.tmp`, file);
+    },
+    get: async (id) => {
+      const found = existing(id);
+      return found && `data:${found.type};base64,${readFileSync(found.file).toString('base64')}`;
+    },
+    remove
+  };
+};
@@ -0,0 +1,119 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+import { createServer } from 'node:http';
+import { resolve } from 'node:path';
+import { startHoldScheduler } from '../src/lib/api/jobs';
+import { createBookingService } from '../src/lib/api/service';
+import { hashPassword } from '../src/lib/auth/passwords';
+import type {
+  ApproveRequest,
+  BookingUpdate,
+  CalendarImportRequest,
+  CancelRequest,
+  CommentRequest,
+  LoginRequest,
+  NewBooking,
+  NewClosure,
+  NewVenuePhoto,
+  OccurrenceChange,
+  OperatingHoursRequest,
+  RejectRequest,
+  VenueInput,
+  VenueStatusRequest
+} from '../src/lib/api/types';
+import { createDocumentRepositories, StorageError } from '../src/lib/storage/document-store';
+import { createFileDriver } from './file-driver';
+import { createFileImageStore } from './file-image-store';
+import { createRouter, RawResponse, type RouteContext } from './router';
+
+const PORT = Number(process.env.PORT ?? 3001);
+const DATA_FILE = resolve(process.env.DATA_FILE ?? 'server/data/db.json');
+const IMAGE_DIR = resolve(process.env.IMAGE_DIR ?? 'server/data/images');
+const SESSION_SECRET = process.env.SESSION_SECRET ?? randomBytes(32).toString('hex');
+
+if (!process.env.SESSION_SECRET) {
+  console.warn('SESSION_SECRET is not set; using a random key, so sessions will not survive a restart.');
+}
+
+const repositories = createDocumentRepositories(createFileDriver(DATA_FILE));
+const images = createFileImageStore(IMAGE_DIR);
+const serviceFor = ({ token }: RouteContext) =>
+  createBookingService(repositories, { getToken: () => token, sessionSecret: SESSION_SECRET, images });
+
+// Image ids are never reused, so browsers may cache them for good.
+const imageResponse = (dataUrl: string) => {
+  const [, contentType, data] = /^data:([^;]+);base64,(.*)$/.exec(dataUrl) ?? [];
+  return new RawResponse(contentType, Buffer.from(data, 'base64'), { 'Cache-Control': 'public, max-age=31536000, immutable' });
+};
+const router = createRouter('/api');
+
+router.get('/venues', (ctx) => serviceFor(ctx).venues.list());
+router.post('/venues', (ctx) => serviceFor(ctx).venues.create((ctx.body ?? {}) as VenueInput), 201);
+router.post('/venues/:id', (ctx) => serviceFor(ctx).venues.update(ctx.params.id, (ctx.body ?? {}) as VenueInput));
+router.post('/venues/:id/status', (ctx) => serviceFor(ctx).venues.setStatus(ctx.params.id, (ctx.body ?? {}) as VenueStatusRequest));
+router.delete('/venues/:id', (ctx) => serviceFor(ctx).venues.remove(ctx.params.id));
+router.post('/venues/:id/photos', (ctx) => serviceFor(ctx).venues.addPhoto(ctx.params.id, (ctx.body ?? {}) as NewVenuePhoto), 201);
+router.delete('/venues/:id/photos/:photoId', (ctx) => serviceFor(ctx).venues.removePhoto(ctx.params.id, ctx.params.photoId));
+router.get('/images/:id', async (ctx) => imageResponse(await serviceFor(ctx).images.get(ctx.params.id)));
+router.post('/venues/:id/hours', (ctx) =>
+  serviceFor(ctx).venues.updateHours(ctx.params.id, (ctx.body ?? {}) as OperatingHoursRequest));
+
+router.get('/closures', (ctx) => serviceFor(ctx).closures.list());
+router.post('/closures', (ctx) => serviceFor(ctx).closures.create((ctx.body ?? {}) as NewClosure), 201);
+router.delete('/closures/:id', (ctx) => serviceFor(ctx).closures.remove(ctx.params.id));
+
+router.get('/calendar', (ctx) => serviceFor(ctx).calendar.list());
+router.post('/calendar', (ctx) =>
+  serviceFor(ctx).calendar.import((ctx.body ?? {}) as CalendarImportRequest));
+router.delete('/calendar/:id', (ctx) => serviceFor(ctx).calendar.remove(ctx.params.id));
+
+router.get('/bookings', (ctx) => serviceFor(ctx).bookings.list());
+router.post('/bookings', (ctx) => serviceFor(ctx).bookings.create((ctx.body ?? {}) as NewBooking), 201);
+router.post('/bookings/:id', (ctx) => serviceFor(ctx).bookings.update(ctx.params.id, (ctx.body ?? {}) as BookingUpdate));
+router.post('/bookings/:id/approve', (ctx) => serviceFor(ctx).bookings.approve(ctx.params.id, ctx.body as ApproveRequest));
+router.post('/bookings/:id/reject', (ctx) => serviceFor(ctx).bookings.reject(ctx.params.id, (ctx.body ?? {}) as RejectRequest));
+router.post('/bookings/:id/comments', (ctx) => serviceFor(ctx).bookings.comment(ctx.params.id, (ctx.body ?? {}) as CommentRequest), 201);
+router.post('/bookings/:id/escalate', (ctx) => serviceFor(ctx).bookings.escalate(ctx.params.id));
+router.post('/bookings/:id/cancel', (ctx) => serviceFor(ctx).bookings.cancel(ctx.params.id, (ctx.body ?? {}) as CancelRequest));
+router.post('/bookings/:id/restore', (ctx) => serviceFor(ctx).bookings.restore(ctx.params.id));
+router.delete('/bookings/:id/occurrences/:date', (ctx) => serviceFor(ctx).bookings.cancelOccurrence(ctx.params.id, ctx.params.date));
+router.post('/bookings/:id/occurrences/:date', (ctx) =>
+  serviceFor(ctx).bookings.editOccurrence(ctx.params.id, ctx.params.date, (ctx.body ?? {}) as OccurrenceChange));
+router.post('/bookings/:id/confirm', (ctx) => serviceFor(ctx).bookings.confirmHold(ctx.params.id));
+
+router.get('/notifications', (ctx) => serviceFor(ctx).notifications.list());
+router.post('/notifications/:id/read', (ctx) => serviceFor(ctx).notifications.markRead(ctx.params.id));
+
+router.post('/auth/login', (ctx) => serviceFor(ctx).auth.login((ctx.body ?? {}) as LoginRequest));
+router.get('/auth/session', (ctx) => serviceFor(ctx).auth.session());
+router.post('/auth/refresh', (ctx) => serviceFor(ctx).auth.refresh());
+router.post('/auth/logout', (ctx) => serviceFor(ctx).auth.logout());
+
+// The shared data never gets the demo accounts; its first account is an
+// administrator whose password the operator chooses.
+const ensureAdministrator = async () => {
+  if ((await repositories.users.list()).length > 0) return;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    console.warn('The data file has no accounts; set ADMIN_PASSWORD to create the "admin" account.');
+    return;
+  }
+  await repositories.users.save({
+    id: randomUUID(),
+    username: 'admin',
+    displayName: 'System Administrator',
+    userType: 'admin',
+    department: null,
+    ...(await hashPassword(password)),
+    failedLoginAttempts: 0,
+    lockedUntil: null
+  });
+  console.log('Created the "admin" account with the password from ADMIN_PASSWORD.');
+};
+
+await ensureAdministrator();
+startHoldScheduler(repositories, error =>
+  console.error('Could not release lapsed holds:', error instanceof StorageError ? error.message : error));
+
+createServer(router.handle).listen(PORT, () => {
+  console.log(`Venue booking API listening on http://localhost:${PORT}/api (data: ${DATA_FILE})`);
+});
@@ -0,0 +1,122 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { ApiError } from '../src/lib/api/types';
+import { StorageError } from '../src/lib/storage/document-store';
+
+export interface RouteContext {
+  params: Record<string, string>;
+  body: unknown;
+  /** Bearer token from the Authorization header, if any. */
+  token: string | null;
+}
+
+/** A response sent as-is rather than as JSON, such as an image. */
+export class RawResponse {
+  constructor(
+    readonly contentType: string,
+    readonly data: Buffer,
+    readonly headers: Record<string, string> = {}
+  ) {}
+}
+
+type Handler = (context: RouteContext) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+  status: number;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<unknown>((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ApiError(413, 'Request body is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (chunks.length === 0) return resolve(undefined);
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new ApiError(400, 'Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, payload?: unknown) => {
+  if (payload instanceof RawResponse) {
+    res.writeHead(status, { ...payload.headers, 'Content-Type': payload.contentType }).end(payload.data);
+    return;
+  }
+  if (payload === undefined) {
+    res.writeHead(status).end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(payload));
+};
+
+/** Minimal path router: `/bookings/:id/approve` style patterns, JSON in and out. */
+export const createRouter = (prefix: string) => {
+  const routes: Route[] = [];
+
+  const add = (method: string, path: string, handler: Handler, status = 200) => {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    routes.push({ method, pattern: new RegExp(`^${prefix}${source}/?$`), keys, handler, status });
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const matching = routes.filter(route => route.pattern.test(path));
+
+    if (matching.length === 0) {
+      return send(res, 404, { error: `No route for ${path}.` });
+    }
+
+    const route = matching.find(candidate => candidate.method === req.method);
+    if (!route) {
+      return send(res, 405, { error: `${req.method} is not supported on ${path}.` });
+    }
+
+    try {
+      const match = route.pattern.exec(path)!;
+      const params = Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+      const body = await readBody(req);
+      const token = /^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1] ?? null;
+      const result = await route.handler({ params, body, token });
+      send(res, result === undefined ? 204 : route.status, result);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return send(res, error.status, { error: error.message });
+      }
+      if (error instanceof StorageError) {
+        console.error(error.message);
+        return send(res, 503, { error: error.message });
+      }
+      console.error(error);
+      send(res, 500, { error: 'Internal server error.' });
+    }
+  };
+
+  return {
+    get: (path: string, handler: Handler) => add('GET', path, handler),
+    post: (path: string, handler: Handler, status?: number) => add('POST', path, handler, status),
+    delete: (path: string, handler: Handler) => add('DELETE', path, handler),
+    handle
+  };
+};
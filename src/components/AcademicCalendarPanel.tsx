@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarDays, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { useImportCalendar, useRemovePeriod } from '@/hooks/useVenueData';
+import { CALENDAR_RULES, PERIOD_KINDS } from '@/lib/academic-calendar';
+import { parseCalendarFile, type CalendarImport } from '@/lib/calendar-import';
+import { formatDateRange } from '@/lib/time';
+import type { AcademicPeriod } from '@/lib/types';
+
+interface AcademicCalendarPanelProps {
+  periods: AcademicPeriod[];
+}
+
+const byStartDate = (a: { startDate: string }, b: { startDate: string }) => a.startDate.localeCompare(b.startDate);
+
+/** The registrar's view of the academic calendar, with an ICS or CSV import. */
+const AcademicCalendarPanel = ({ periods }: AcademicCalendarPanelProps) => {
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<CalendarImport | null>(null);
+  const [replace, setReplace] = useState(false);
+  const importCalendar = useImportCalendar();
+  const removePeriod = useRemovePeriod();
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setParsed(parseCalendarFile(file.name, await file.text()));
+  };
+
+  const handleImport = () => {
+    if (!parsed) return;
+    importCalendar.mutate({ periods: parsed.periods, replace }, {
+      onSuccess: () => {
+        toast.success(`Imported ${parsed.periods.length} calendar entries from ${fileName}.`);
+        setParsed(null);
+        setFileName('');
+        setReplace(false);
+      },
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  const handleRemove = (periodId: string) => {
+    removePeriod.mutate(periodId, {
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Academic Calendar</CardTitle>
+          <CardDescription>
+            {CALENDAR_RULES.filter(rule => rule.effect === 'block')
+              .map(rule => `${PERIOD_KINDS[rule.kind]}: ${rule.message}`)
+              .join(' ')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {periods.length === 0 && (
+            <p className="text-sm text-muted-foreground">No calendar entries yet. Import the registrar's calendar to get started.</p>
+          )}
+          <ul className="space-y-2">
+            {[...periods].sort(byStartDate).map(period => (
+              <li key={period.id} className="flex items-center justify-between rounded-md bg-secondary/40 p-3 text-sm">
+                <div className="flex items-start space-x-2">
+                  <CalendarDays className="w-4 h-4 mt-0.5 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">{period.name}</p>
+                    <p className="text-muted-foreground">
+                      {PERIOD_KINDS[period.kind]} · {formatDateRange(period.startDate, period.endDate)}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => handleRemove(period.id)}
+                  disabled={removePeriod.isPending}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import</CardTitle>
+          <CardDescription>
+            An .ics export from a calendar app, or a CSV with the columns kind, name, start and end (YYYY-MM-DD). Entries whose kind cannot be told are skipped.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="calendar-file">Calendar file</Label>
+            <Input id="calendar-file" type="file" accept=".ics,.csv,text/calendar,text/csv" onChange={handleFile} />
+          </div>
+
+          {parsed && (
+            <div className="space-y-3 rounded-md border p-3 text-sm">
+              <p className="font-medium">
+                {parsed.periods.length} entr{parsed.periods.length === 1 ? 'y' : 'ies'} found in {fileName}
+              </p>
+              {parsed.errors.length > 0 && (
+                <ul className="space-y-0.5 text-destructive">
+                  {parsed.errors.map(error => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+              <ul className="max-h-60 overflow-y-auto space-y-1">
+                {[...parsed.periods].sort(byStartDate).map((period, index) => (
+                  <li key={index}>
+                    {period.name} <span className="text-muted-foreground">— {PERIOD_KINDS[period.kind]}, {formatDateRange(period.startDate, period.endDate)}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex items-center space-x-2">
+                <Checkbox id="calendar-replace" checked={replace} onCheckedChange={(checked) => setReplace(checked === true)} />
+                <Label htmlFor="calendar-replace">Replace the existing calendar</Label>
+              </div>
+              <div className="flex justify-end">
+                <Button size="sm" onClick={handleImport} disabled={parsed.periods.length === 0 || importCalendar.isPending}>
+                  <Upload className="w-4 h-4 mr-1" />
+                  Import
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AcademicCalendarPanel;
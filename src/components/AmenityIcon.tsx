@@ -0,0 +1,52 @@
+import {
+  Accessibility,
+  AirVent,
+  Armchair,
+  Computer,
+  Ear,
+  Lightbulb,
+  Mic,
+  Monitor,
+  Plug,
+  Presentation,
+  Projector,
+  Speaker,
+  Theater,
+  Trees,
+  Video,
+  Wifi,
+  type LucideIcon
+} from 'lucide-react';
+import type { AmenityId } from '@/lib/types';
+
+const AMENITY_ICONS: Record<AmenityId, LucideIcon> = {
+  projector: Projector,
+  display: Monitor,
+  'sound-system': Speaker,
+  microphone: Mic,
+  'video-conferencing': Video,
+  computers: Computer,
+  wifi: Wifi,
+  'power-outlets': Plug,
+  whiteboard: Presentation,
+  stage: Theater,
+  seating: Armchair,
+  'air-conditioning': AirVent,
+  floodlights: Lightbulb,
+  'open-air': Trees,
+  'wheelchair-access': Accessibility,
+  'hearing-loop': Ear
+};
+
+interface AmenityIconProps {
+  id: AmenityId;
+  className?: string;
+}
+
+/** The catalog icon for an amenity. */
+const AmenityIcon = ({ id, className = 'w-3 h-3' }: AmenityIconProps) => {
+  const Icon = AMENITY_ICONS[id] ?? Plug;
+  return <Icon className={className} aria-hidden />;
+};
+
+export default AmenityIcon;
@@ -0,0 +1,65 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AMENITIES, AMENITY_CATEGORIES, groupAmenities, MAX_AMENITY_QUANTITY } from '@/lib/amenities';
+import type { AmenityId, VenueAmenity } from '@/lib/types';
+import AmenityIcon from '@/components/AmenityIcon';
+
+interface AmenityPickerProps {
+  value: VenueAmenity[];
+  onChange: (amenities: VenueAmenity[]) => void;
+}
+
+/** The amenity catalog by category, to tick what a venue has and say how many of the countable ones. */
+const AmenityPicker = ({ value, onChange }: AmenityPickerProps) => {
+  const quantityOf = (id: AmenityId) => value.find(amenity => amenity.id === id)?.quantity;
+
+  const toggle = (id: AmenityId, checked: boolean) => {
+    onChange(checked ? [...value, { id, quantity: 1 }] : value.filter(amenity => amenity.id !== id));
+  };
+
+  const setQuantity = (id: AmenityId, quantity: number) => {
+    onChange(value.map(amenity => (amenity.id === id ? { ...amenity, quantity } : amenity)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {groupAmenities().map(({ category, ids }) => (
+        <div key={category} className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">{AMENITY_CATEGORIES[category]}</p>
+          <div className="grid grid-cols-2 gap-2">
+            {ids.map(id => {
+              const quantity = quantityOf(id);
+              return (
+                <div key={id} className="flex items-center space-x-2 min-h-8">
+                  <Checkbox
+                    id={`amenity-${id}`}
+                    checked={quantity !== undefined}
+                    onCheckedChange={(checked) => toggle(id, checked === true)}
+                  />
+                  <Label htmlFor={`amenity-${id}`} className="flex flex-1 items-center space-x-1 font-normal">
+                    <AmenityIcon id={id} className="w-4 h-4" />
+                    <span>{AMENITIES[id].name}</span>
+                  </Label>
+                  {quantity !== undefined && AMENITIES[id].countable && (
+                    <Input
+                      type="number"
+                      min={1}
+                      max={MAX_AMENITY_QUANTITY}
+                      value={quantity || ''}
+                      onChange={(e) => setQuantity(id, Number(e.target.value))}
+                      className="h-8 w-20"
+                      aria-label={`Number of ${AMENITIES[id].name.toLowerCase()}`}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AmenityPicker;
@@ -0,0 +1,73 @@
+import { CheckCircle, ChevronRight, Circle, XCircle } from 'lucide-react';
+import { APPROVAL_STAGES, currentStage } from '@/lib/workflow';
+import type { Booking } from '@/lib/types';
+
+interface ApprovalProgressProps {
+  booking: Booking;
+}
+
+/**
+ * The booking's approval chain, with each stage's decision or the stage it
+ * waits on, followed by any rejection reason or approval conditions.
+ */
+const ApprovalProgress = ({ booking }: ApprovalProgressProps) => {
+  const waitingOn = currentStage(booking);
+  const notes = booking.approvals.filter(approval => approval.note);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1 text-xs">
+        {booking.approvalChain.map((stage, index) => {
+          const decision = booking.approvals.find(approval => approval.stage === stage);
+          const title = decision
+            ? `${decision.decision === 'approved' ? 'Approved' : 'Rejected'} by ${decision.decidedBy} on ${new Date(decision.decidedAt).toLocaleDateString()}`
+            : undefined;
+
+          return (
+            <div key={stage} className="flex items-center gap-1">
+              {index > 0 && <ChevronRight className="w-3 h-3 text-muted-foreground" />}
+              <span
+                title={title}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded-full border ${
+                  decision?.decision === 'approved'
+                    ? 'text-green-600 bg-green-50 border-green-200'
+                    : decision?.decision === 'rejected'
+                    ? 'text-red-600 bg-red-50 border-red-200'
+                    : stage === waitingOn
+                    ? 'text-yellow-600 bg-yellow-50 border-yellow-200 font-medium'
+                    : 'text-muted-foreground border-border'
+                }`}
+              >
+                {decision?.decision === 'approved' ? (
+                  <CheckCircle className="w-3 h-3" />
+                ) : decision?.decision === 'rejected' ? (
+                  <XCircle className="w-3 h-3" />
+                ) : (
+                  <Circle className="w-3 h-3" />
+                )}
+                {APPROVAL_STAGES[stage].label}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      {notes.map(approval => (
+        <p
+          key={approval.stage}
+          className={`text-sm rounded-md border px-3 py-2 ${
+            approval.decision === 'rejected'
+              ? 'text-red-700 bg-red-50 border-red-200'
+              : 'text-green-700 bg-green-50 border-green-200'
+          }`}
+        >
+          <span className="font-medium">
+            {approval.decision === 'rejected' ? 'Rejected' : 'Approved with conditions'} by {APPROVAL_STAGES[approval.stage].label} ({approval.decidedBy}):
+          </span>{' '}
+          {approval.note}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default ApprovalProgress;
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate, type Location } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { AuthContext } from '@/hooks/useAuth';
+import { api, type LoginRequest } from '@/lib/api';
+import { IDLE_TIMEOUT_MINUTES, IDLE_WARNING_SECONDS, REFRESH_WINDOW_MINUTES } from '@/lib/auth/policy';
+import { clearSessionToken, getSessionToken, setSessionToken } from '@/lib/auth/session-token';
+import { readTokenClaims } from '@/lib/auth/tokens';
+import type { User } from '@/lib/types';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'] as const;
+
+const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const queryClient = useQueryClient();
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [idleSecondsRemaining, setIdleSecondsRemaining] = useState<number | null>(null);
+  const lastActivity = useRef(Date.now());
+  const isRefreshing = useRef(false);
+  const locationRef = useRef<Location>(location);
+
+  useEffect(() => {
+    locationRef.current = location;
+  }, [location]);
+
+  useEffect(() => {
+    // Check the stored session token against the user store on mount
+    const checkAuth = async () => {
+      if (getSessionToken()) {
+        try {
+          setUser(await api.auth.session());
+        } catch {
+          clearSessionToken();
+        }
+      }
+      setIsLoading(false);
+    };
+
+    checkAuth();
+  }, []);
+
+  const endSession = useCallback(async (returnTo?: Location) => {
+    try {
+      await api.auth.logout();
+    } catch {
+      // The session may already be gone on the server; sign out locally regardless.
+    }
+    clearSessionToken();
+    queryClient.clear();
+    setUser(null);
+    setIdleSecondsRemaining(null);
+    navigate('/login', { replace: true, state: returnTo ? { from: returnTo } : undefined });
+  }, [navigate, queryClient]);
+
+  const refresh = useCallback(async () => {
+    if (isRefreshing.current) return;
+    isRefreshing.current = true;
+    try {
+      const session = await api.auth.refresh();
+      setSessionToken(session.token);
+      setUser(session.user);
+    } catch {
+      await endSession(locationRef.current);
+    } finally {
+      isRefreshing.current = false;
+    }
+  }, [endSession]);
+
+  const isSignedIn = user !== null;
+
+  // Track activity and, once a second, decide whether to warn, refresh or sign out.
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    lastActivity.current = Date.now();
+    let warning = false;
+
+    const onActivity = () => {
+      if (!warning) lastActivity.current = Date.now();
+    };
+
+    const tick = () => {
+      const now = Date.now();
+      const idleRemaining = IDLE_TIMEOUT_MINUTES * 60 - (now - lastActivity.current) / 1000;
+      const claims = readTokenClaims(getSessionToken() ?? '');
+
+      if (idleRemaining <= 0 || !claims || claims.exp <= now) {
+        endSession(locationRef.current);
+        return;
+      }
+
+      warning = idleRemaining <= IDLE_WARNING_SECONDS;
+      setIdleSecondsRemaining(warning ? Math.ceil(idleRemaining) : null);
+
+      if (!warning && claims.exp - now <= REFRESH_WINDOW_MINUTES * 60_000) {
+        refresh();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    const timer = window.setInterval(tick, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+      window.clearInterval(timer);
+    };
+  }, [isSignedIn, endSession, refresh]);
+
+  const login = async (credentials: LoginRequest) => {
+    const session = await api.auth.login(credentials);
+    setSessionToken(session.token);
+    queryClient.clear();
+    setUser(session.user);
+  };
+
+  const staySignedIn = async () => {
+    lastActivity.current = Date.now();
+    setIdleSecondsRemaining(null);
+    await refresh();
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        isAuthenticated: isSignedIn,
+        user,
+        isLoading,
+        login,
+        logout: () => endSession(),
+        idleSecondsRemaining,
+        staySignedIn
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export default AuthProvider;
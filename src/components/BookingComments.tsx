@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ChevronUp, MessageSquare, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAddComment } from '@/hooks/useVenueData';
+import type { Booking } from '@/lib/types';
+
+interface BookingCommentsProps {
+  booking: Booking;
+  canComment: boolean;
+}
+
+/** Collapsible discussion thread between the requester and the approvers. */
+const BookingComments = ({ booking, canComment }: BookingCommentsProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [body, setBody] = useState('');
+  const addComment = useAddComment();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    addComment.mutate({ id: booking.id, body }, {
+      onSuccess: () => setBody(''),
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-2 -ml-2 text-muted-foreground">
+          <MessageSquare className="w-4 h-4 mr-1" />
+          Comments ({booking.comments.length})
+          {isOpen ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        {booking.comments.length === 0 && (
+          <p className="text-sm text-muted-foreground">No comments yet.</p>
+        )}
+        {booking.comments.map(comment => (
+          <div key={comment.id} className="rounded-md bg-secondary/40 p-3 text-sm">
+            <div className="flex justify-between text-xs text-muted-foreground mb-1">
+              <span className="font-medium text-foreground">{comment.author}</span>
+              <span>{new Date(comment.createdAt).toLocaleString()}</span>
+            </div>
+            <p className="whitespace-pre-wrap">{comment.body}</p>
+          </div>
+        ))}
+        {canComment && (
+          <form onSubmit={handleSubmit} className="flex items-end space-x-2">
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="Ask a question or suggest a change..."
+              className="min-h-[60px]"
+            />
+            <Button type="submit" size="sm" disabled={!body.trim() || addComment.isPending}>
+              <Send className="w-4 h-4" />
+            </Button>
+          </form>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default BookingComments;
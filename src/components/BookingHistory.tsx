@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ChevronUp, History, RotateCcw } from 'lucide-react';
+import { fieldLabel } from '@/lib/booking-changes';
+import type { Booking } from '@/lib/types';
+
+interface BookingHistoryProps {
+  booking: Booking;
+}
+
+/** Collapsible list of the edits made to a booking, newest first, with the old and new value of each field. */
+const BookingHistory = ({ booking }: BookingHistoryProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (booking.history.length === 0) return null;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-2 -ml-2 text-muted-foreground">
+          <History className="w-4 h-4 mr-1" />
+          Changes ({booking.history.length})
+          {isOpen ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        {[...booking.history].reverse().map(change => (
+          <div key={change.id} className="rounded-md bg-secondary/40 p-3 text-sm">
+            <div className="flex justify-between text-xs text-muted-foreground mb-1">
+              <span className="font-medium text-foreground">{change.changedBy}</span>
+              <span>{new Date(change.changedAt).toLocaleString()}</span>
+            </div>
+            <ul className="space-y-0.5">
+              {change.changes.map(({ field, from, to }) => (
+                <li key={field}>
+                  <span className="font-medium">{fieldLabel(field)}:</span>{' '}
+                  <span className="text-muted-foreground line-through">{from || '—'}</span> → {to || '—'}
+                </li>
+              ))}
+            </ul>
+            {change.reapproval && (
+              <p className="mt-1 flex items-center space-x-1 text-xs text-yellow-600">
+                <RotateCcw className="w-3 h-3" />
+                <span>Sent back for approval</span>
+              </p>
+            )}
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default BookingHistory;
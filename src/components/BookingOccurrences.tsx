@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ChevronUp, Edit, Repeat, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import OccurrenceDialog from '@/components/OccurrenceDialog';
+import { useCancelOccurrence, useEditOccurrence } from '@/hooks/useVenueData';
+import type { ScheduleContext } from '@/lib/availability';
+import { describeRecurrence, occurrencesOf } from '@/lib/recurrence';
+import { formatDate, formatDateRange } from '@/lib/time';
+import type { Booking, Venue } from '@/lib/types';
+
+interface BookingOccurrencesProps {
+  booking: Booking;
+  bookings: Booking[];
+  venue: Venue | undefined;
+  schedule: ScheduleContext;
+  /** Whether the user may cancel or retime occurrences. */
+  canChange: boolean;
+}
+
+/** The dates of a repeating booking, each of which can be cancelled or moved on its own. */
+const BookingOccurrences = ({ booking, bookings, venue, schedule, canChange }: BookingOccurrencesProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const cancelOccurrence = useCancelOccurrence();
+  const editOccurrence = useEditOccurrence();
+
+  if (!booking.recurrence) return null;
+
+  const occurrences = occurrencesOf(booking);
+  const today = new Date().toISOString().split('T')[0];
+  const canCancel = canChange && occurrences.length > 1;
+
+  const handleCancel = (date: string) => {
+    cancelOccurrence.mutate({ id: booking.id, date }, {
+      onSuccess: () => toast.success(`Cancelled the ${formatDate(date)} occurrence.`),
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-2 -ml-2 text-muted-foreground">
+          <Repeat className="w-4 h-4 mr-1" />
+          {describeRecurrence(booking.recurrence)} ({occurrences.length})
+          {isOpen ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pt-2">
+        <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+          {occurrences.map(({ date, endDate }) => (
+            <li key={date} className="flex items-center justify-between rounded-md bg-secondary/40 px-3 py-1">
+              <span className={date < today ? 'text-muted-foreground' : undefined}>{formatDateRange(date, endDate)}</span>
+              {canChange && venue && date >= today && (
+                <span className="flex space-x-1">
+                  <Button size="sm" variant="ghost" onClick={() => setEditing(date)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  {canCancel && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleCancel(date)}
+                      disabled={cancelOccurrence.isPending}
+                    >
+                      <XCircle className="w-4 h-4" />
+                    </Button>
+                  )}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+        {booking.recurrence.exceptions.length > 0 && (
+          <p className="text-xs text-muted-foreground pt-2">
+            Skipped: {booking.recurrence.exceptions.map(formatDate).join(', ')}
+          </p>
+        )}
+      </CollapsibleContent>
+
+      {venue && (
+        <OccurrenceDialog
+          booking={booking}
+          occurrence={editing}
+          bookings={bookings}
+          venue={venue}
+          schedule={schedule}
+          isSubmitting={editOccurrence.isPending}
+          onOpenChange={(open) => !open && setEditing(null)}
+          onConfirm={(change) => editing && editOccurrence.mutate({ id: booking.id, date: editing, change }, {
+            onSuccess: () => setEditing(null),
+            onError: (error) => toast.error(error.message)
+          })}
+        />
+      )}
+    </Collapsible>
+  );
+};
+
+export default BookingOccurrences;
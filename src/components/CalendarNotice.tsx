@@ -0,0 +1,45 @@
+import { AlertTriangle, CalendarX } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { describeRestriction, type CalendarRestriction } from '@/lib/academic-calendar';
+import { formatDateRange } from '@/lib/time';
+
+interface CalendarNoticeProps {
+  restrictions: CalendarRestriction[];
+}
+
+/** Academic calendar periods a booking falls in: blocks first, then warnings. */
+const CalendarNotice = ({ restrictions }: CalendarNoticeProps) => {
+  const blocks = restrictions.filter(restriction => restriction.effect === 'block');
+  const warnings = restrictions.filter(restriction => restriction.effect === 'warn');
+
+  const list = (items: CalendarRestriction[]) => (
+    <ul className="space-y-0.5">
+      {items.map(restriction => (
+        <li key={restriction.period.id}>
+          {describeRestriction(restriction)} ({formatDateRange(restriction.period.startDate, restriction.period.endDate)})
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-2">
+      {blocks.length > 0 && (
+        <Alert variant="destructive">
+          <CalendarX className="h-4 w-4" />
+          <AlertTitle>Not bookable on these dates</AlertTitle>
+          <AlertDescription>{list(blocks)}</AlertDescription>
+        </Alert>
+      )}
+      {warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Academic calendar</AlertTitle>
+          <AlertDescription>{list(warnings)}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+};
+
+export default CalendarNotice;
@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MapPin, Plus } from 'lucide-react';
+import campusMap from '@/assets/campus-map.svg';
+import { slotAvailability, type ScheduleContext, type SlotAvailability, type SlotStatus } from '@/lib/availability';
+import { BUILDINGS, campusName, findBuilding, floorLabel } from '@/lib/campus';
+import { addDays, fromMinutes, localDate, SCHEDULING, timeSteps, toMinutes } from '@/lib/time';
+import type { Booking, Venue } from '@/lib/types';
+
+export interface MapSlot {
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface CampusMapProps {
+  venues: Venue[];
+  bookings: Booking[];
+  schedule: ScheduleContext;
+  canBook: boolean;
+  /** Opens the booking dialog for the venue on the map's date, and at its times when they are free. */
+  onBook: (venue: Venue, slot: Partial<MapSlot>) => void;
+}
+
+const STATUS_STYLES: Record<SlotStatus, { label: string; pin: string; dot: string }> = {
+  free: { label: 'Free', pin: 'fill-green-500', dot: 'bg-green-500' },
+  booked: { label: 'Booked', pin: 'fill-red-500', dot: 'bg-red-500' },
+  closed: { label: 'Closed', pin: 'fill-muted-foreground', dot: 'bg-muted-foreground' }
+};
+
+/** The next hour from now if the venues are still open today, otherwise the first hour tomorrow. */
+const initialSlot = (from: string, to: string): MapSlot => {
+  const step = SCHEDULING.granularityMinutes;
+  const now = new Date();
+  const start = Math.max(Math.ceil((now.getHours() * 60 + now.getMinutes()) / step) * step, toMinutes(from));
+  if (start + 60 <= toMinutes(to)) {
+    return { date: localDate(now), startTime: fromMinutes(start), endTime: fromMinutes(start + 60) };
+  }
+  return { date: addDays(localDate(now), 1), startTime: from, endTime: fromMinutes(Math.min(toMinutes(from) + 60, toMinutes(to))) };
+};
+
+/**
+ * The campus drawn from the local map asset, with each building clickable and
+ * its venues pinned in the colour of their availability for the chosen slot.
+ */
+const CampusMap = ({ venues, bookings, schedule, canBook, onBook }: CampusMapProps) => {
+  const openHours = venues.flatMap(venue => venue.operatingHours).filter(Boolean);
+  const from = openHours.length ? fromMinutes(Math.min(...openHours.map(hours => toMinutes(hours.open)))) : SCHEDULING.dayStart;
+  const to = openHours.length ? fromMinutes(Math.max(...openHours.map(hours => toMinutes(hours.close)))) : SCHEDULING.dayEnd;
+  const steps = timeSteps(from, to);
+
+  const [slot, setSlot] = useState<MapSlot>(() => initialSlot(from, to));
+  const [buildingId, setBuildingId] = useState<string | null>(null);
+  const [venueId, setVenueId] = useState<string | null>(null);
+
+  const availability = new Map<string, SlotAvailability>(
+    venues.map(venue => [venue.id, slotAvailability(bookings, venue, schedule, slot.date, slot.startTime, slot.endTime)])
+  );
+  const venuesIn = (id: string) => venues.filter(venue => venue.location.buildingId === id);
+  const freeIn = (id: string) => venuesIn(id).filter(venue => availability.get(venue.id)?.status === 'free').length;
+  const offMap = venues.filter(venue => !findBuilding(venue.location.buildingId));
+  const building = buildingId ? findBuilding(buildingId) : undefined;
+
+  const changeStart = (startTime: string) => {
+    const endTime = toMinutes(slot.endTime) > toMinutes(startTime)
+      ? slot.endTime
+      : fromMinutes(toMinutes(startTime) + SCHEDULING.granularityMinutes);
+    setSlot({ ...slot, startTime, endTime });
+  };
+
+  const selectBuilding = (id: string, pinned: string | null = null) => {
+    setBuildingId(id);
+    setVenueId(pinned);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="venue-card">
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="map-date">Date</Label>
+              <Input
+                id="map-date"
+                type="date"
+                min={localDate()}
+                value={slot.date}
+                onChange={(e) => e.target.value && setSlot({ ...slot, date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>From</Label>
+              <Select value={slot.startTime} onValueChange={changeStart}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {steps.map(({ start }) => (
+                    <SelectItem key={start} value={start}>{start}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>To</Label>
+              <Select value={slot.endTime} onValueChange={(endTime) => setSlot({ ...slot, endTime })}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {steps
+                    .filter(({ end }) => toMinutes(end) > toMinutes(slot.startTime))
+                    .map(({ end }) => (
+                      <SelectItem key={end} value={end}>{end}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-4 text-sm text-muted-foreground ml-auto">
+              {(Object.keys(STATUS_STYLES) as SlotStatus[]).map(status => (
+                <span key={status} className="flex items-center space-x-1">
+                  <span className={`w-3 h-3 rounded-full ${STATUS_STYLES[status].dot}`} />
+                  <span>{STATUS_STYLES[status].label}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="venue-card lg:col-span-2 overflow-hidden">
+          <svg viewBox="0 0 1000 600" className="w-full h-auto" aria-label="Campus map">
+            <image href={campusMap} width={1000} height={600} />
+            {BUILDINGS.map(({ id, name, outline }) => {
+              const pinned = venuesIn(id);
+              const selected = id === buildingId;
+              return (
+                <g
+                  key={id}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={name}
+                  className="cursor-pointer focus:outline-none"
+                  onClick={() => selectBuilding(id)}
+                  onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && selectBuilding(id)}
+                >
+                  <rect
+                    {...outline}
+                    rx={6}
+                    className={`fill-background ${selected ? 'stroke-primary' : 'stroke-muted-foreground/50 hover:stroke-primary'}`}
+                    strokeWidth={selected ? 4 : 2}
+                  />
+                  <text x={outline.x + outline.width / 2} y={outline.y + 20} textAnchor="middle" className="fill-foreground text-[13px] font-semibold">
+                    {name}
+                  </text>
+                  {pinned.length > 0 && (
+                    <text x={outline.x + outline.width / 2} y={outline.y + 36} textAnchor="middle" className="fill-muted-foreground text-[11px]">
+                      {freeIn(id)} of {pinned.length} free
+                    </text>
+                  )}
+                  {pinned.map((venue, index) => {
+                    const { status, reason } = availability.get(venue.id);
+                    return (
+                      <circle
+                        key={venue.id}
+                        cx={outline.x + ((index + 1) * outline.width) / (pinned.length + 1)}
+                        cy={outline.y + Math.max(56, outline.height * 0.65)}
+                        r={venue.id === venueId ? 12 : 9}
+                        className={`${STATUS_STYLES[status].pin} stroke-white`}
+                        strokeWidth={2}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          selectBuilding(id, venue.id);
+                        }}
+                      >
+                        <title>{`${venue.name}: ${STATUS_STYLES[status].label}${reason ? ` (${reason})` : ''}`}</title>
+                      </circle>
+                    );
+                  })}
+                </g>
+              );
+            })}
+          </svg>
+        </Card>
+
+        <Card className="venue-card">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <MapPin className="w-5 h-5" />
+              <span>{building?.name ?? 'Campus Map'}</span>
+            </CardTitle>
+            <CardDescription>
+              {building
+                ? `${campusName(building.campusId)} · ground floor to ${floorLabel(building.floors).toLowerCase()}`
+                : 'Select a building or pin to see its venues for the chosen time.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {building && venuesIn(building.id).length === 0 && (
+              <p className="text-sm text-muted-foreground">No bookable venues in this building.</p>
+            )}
+            {building && venuesIn(building.id).map(venue => {
+              const { status, reason } = availability.get(venue.id);
+              const { floor, room } = venue.location;
+              return (
+                <div
+                  key={venue.id}
+                  className={`rounded-md border p-3 space-y-2 ${venue.id === venueId ? 'border-primary bg-primary/5' : ''}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium text-foreground">{venue.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {[room && `Room ${room}`, floor !== null && floorLabel(floor), `${venue.capacity} people`].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                    <span className="flex items-center space-x-1 text-xs">
+                      <span className={`w-2 h-2 rounded-full ${STATUS_STYLES[status].dot}`} />
+                      <span>{STATUS_STYLES[status].label}</span>
+                    </span>
+                  </div>
+                  {reason && <p className="text-xs text-muted-foreground">{reason}</p>}
+                  <Button size="sm" variant="outline" className="w-full" disabled={!canBook} onClick={() => onBook(venue, status === 'free' ? slot : { date: slot.date })}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    {status === 'free' ? 'Book this slot' : 'Book another time'}
+                  </Button>
+                </div>
+              );
+            })}
+            {offMap.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Not on the map yet: {offMap.map(venue => venue.name).join(', ')}.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CampusMap;
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Ban } from 'lucide-react';
+import type { Booking } from '@/lib/types';
+import { formatDateRange } from '@/lib/time';
+
+interface CancelBookingDialogProps {
+  booking: Booking | null;
+  isSubmitting: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string) => void;
+}
+
+/** Asks why a booking is being cancelled; the record is kept and the requester sees the reason. */
+const CancelBookingDialog = ({ booking, isSubmitting, onOpenChange, onConfirm }: CancelBookingDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReason('');
+    setError(null);
+  }, [booking]);
+
+  const handleConfirm = () => {
+    if (!reason.trim()) {
+      setError('Please explain why this booking is being cancelled.');
+      return;
+    }
+    onConfirm(reason.trim());
+  };
+
+  return (
+    <Dialog open={booking !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Ban className="w-5 h-5 text-destructive" />
+            <span>Cancel booking</span>
+          </DialogTitle>
+          <DialogDescription>
+            {booking?.purpose} at {booking?.venueName} on {booking && formatDateRange(booking.date, booking.endDate)}, requested by {booking?.bookedBy}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="cancel-reason">Reason for cancelling</Label>
+          <Textarea
+            id="cancel-reason"
+            value={reason}
+            onChange={(e) => {
+              setReason(e.target.value);
+              setError(null);
+            }}
+            placeholder="e.g., The guest speaker is no longer able to attend."
+            className="min-h-[100px]"
+          />
+          {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep Booking
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={isSubmitting}>
+            Cancel Booking
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelBookingDialog;
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CheckCircle, XCircle } from 'lucide-react';
+import type { Booking } from '@/lib/types';
+import { formatDateRange } from '@/lib/time';
+
+interface DecisionDialogProps {
+  booking: Booking | null;
+  decision: 'approved' | 'rejected';
+  isSubmitting: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (note: string) => void;
+}
+
+/** Asks for a rejection reason, or optional conditions when approving. */
+const DecisionDialog = ({ booking, decision, isSubmitting, onOpenChange, onConfirm }: DecisionDialogProps) => {
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const isReject = decision === 'rejected';
+
+  useEffect(() => {
+    setNote('');
+    setError(null);
+  }, [booking, decision]);
+
+  const handleConfirm = () => {
+    if (isReject && !note.trim()) {
+      setError('Please explain why this request is being rejected.');
+      return;
+    }
+    onConfirm(note.trim());
+  };
+
+  return (
+    <Dialog open={booking !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            {isReject ? <XCircle className="w-5 h-5 text-red-500" /> : <CheckCircle className="w-5 h-5 text-green-500" />}
+            <span>{isReject ? 'Reject' : 'Approve'} booking request</span>
+          </DialogTitle>
+          <DialogDescription>
+            {booking?.purpose} at {booking?.venueName} on {booking && formatDateRange(booking.date, booking.endDate)}, requested by {booking?.bookedBy}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="decision-note">
+            {isReject ? 'Reason for rejection' : 'Conditions (optional)'}
+          </Label>
+          <Textarea
+            id="decision-note"
+            value={note}
+            onChange={(e) => {
+              setNote(e.target.value);
+              setError(null);
+            }}
+            placeholder={isReject
+              ? 'e.g., The venue is reserved for university examinations that week.'
+              : 'e.g., Approved provided the hall is vacated by 17:00.'}
+            className="min-h-[100px]"
+          />
+          {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={isReject ? 'destructive' : 'default'}
+            className={isReject ? undefined : 'bg-green-600 hover:bg-green-700'}
+            onClick={handleConfirm}
+            disabled={isSubmitting}
+          >
+            {isReject ? 'Reject Request' : 'Approve Request'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DecisionDialog;
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { useConfirmHold } from '@/hooks/useVenueData';
+import { formatTimeLeft } from '@/lib/holds';
+import type { Booking } from '@/lib/types';
+
+interface HoldCountdownProps {
+  booking: Booking;
+  /** Only the requester can turn their hold into a full request. */
+  canConfirm: boolean;
+}
+
+// The countdown shows minutes, so a refresh every half minute is enough.
+const TICK_MS = 30_000;
+
+/** Time left on a tentative hold, with a button to confirm it into a request. */
+const HoldCountdown = ({ booking, canConfirm }: HoldCountdownProps) => {
+  const [now, setNow] = useState(() => new Date());
+  const confirmHold = useConfirmHold();
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), TICK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  if (booking.status !== 'held' || !booking.heldUntil) return null;
+
+  const handleConfirm = () => {
+    confirmHold.mutate(booking.id, {
+      onSuccess: () => toast.success('Hold confirmed; the request is now awaiting approval.'),
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  return (
+    <div className="flex items-center justify-between rounded-md border border-purple-200 bg-purple-50 p-3 text-sm text-purple-700">
+      <div className="flex items-center space-x-2">
+        <Timer className="w-4 h-4" />
+        <span>
+          Tentative hold, released in <span className="font-medium">{formatTimeLeft(booking.heldUntil, now)}</span> unless confirmed
+          {' '}({new Date(booking.heldUntil).toLocaleString()}).
+        </span>
+      </div>
+      {canConfirm && (
+        <Button size="sm" variant="outline" onClick={handleConfirm} disabled={confirmHold.isPending}>
+          Confirm Request
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default HoldCountdown;
@@ -0,0 +1,56 @@
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { toast } from 'sonner';
+import { useMarkNotificationRead, useNotifications } from '@/hooks/useVenueData';
+
+/** Header bell with the signed-in user's notifications; opening one marks it read. */
+const NotificationBell = () => {
+  const { data: notifications = [] } = useNotifications();
+  const markRead = useMarkNotificationRead();
+  const unread = notifications.filter(notification => !notification.read);
+
+  const handleRead = (notificationId: string) => {
+    markRead.mutate(notificationId, {
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="w-4 h-4" />
+          {unread.length > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4">
+              {unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-4 py-2 text-sm font-medium">Notifications</div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-muted-foreground text-center">Nothing new.</p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y">
+            {notifications.map(notification => (
+              <li key={notification.id}>
+                <button
+                  type="button"
+                  onClick={() => !notification.read && handleRead(notification.id)}
+                  className={`w-full text-left px-4 py-3 text-sm hover:bg-secondary/50 ${notification.read ? 'text-muted-foreground' : 'font-medium'}`}
+                >
+                  <p>{notification.message}</p>
+                  <p className="mt-1 text-xs text-muted-foreground">{new Date(notification.createdAt).toLocaleString()}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
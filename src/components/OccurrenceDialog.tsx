@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import TimeRangePicker, { type TimeRange } from '@/components/TimeRangePicker';
+import type { OccurrenceChange } from '@/lib/api';
+import { availabilityCells, type ScheduleContext } from '@/lib/availability';
+import { addDays, daysBetween, formatDate } from '@/lib/time';
+import type { Booking, Venue } from '@/lib/types';
+
+interface OccurrenceDialogProps {
+  booking: Booking;
+  /** Start date of the occurrence being edited, or null while closed. */
+  occurrence: string | null;
+  bookings: Booking[];
+  venue: Venue;
+  schedule: ScheduleContext;
+  isSubmitting: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (change: OccurrenceChange) => void;
+}
+
+/** Retimes one occurrence of a series, or every occurrence at once. */
+const OccurrenceDialog = ({
+  booking,
+  occurrence,
+  bookings,
+  venue,
+  schedule,
+  isSubmitting,
+  onOpenChange,
+  onConfirm
+}: OccurrenceDialogProps) => {
+  const [scope, setScope] = useState<OccurrenceChange['scope']>('occurrence');
+  const [date, setDate] = useState('');
+  const [range, setRange] = useState<TimeRange | null>(null);
+
+  useEffect(() => {
+    setScope('occurrence');
+    setDate(occurrence ?? '');
+    setRange({ startTime: booking.startTime, endTime: booking.endTime });
+  }, [booking, occurrence]);
+
+  // A single occurrence is checked on its own days; the series on all of its dates.
+  const span = scope === 'series'
+    ? booking
+    : { date, endDate: addDays(date, daysBetween(booking.date, booking.endDate)), recurrence: null };
+
+  return (
+    <Dialog open={occurrence !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Change occurrence</DialogTitle>
+          <DialogDescription>
+            {booking.purpose} at {booking.venueName} on {occurrence && formatDate(occurrence)}. Changed times need approving again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={scope} onValueChange={(value) => setScope(value as OccurrenceChange['scope'])}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="occurrence" id="scope-occurrence" />
+              <Label htmlFor="scope-occurrence">Only this occurrence</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="series" id="scope-series" />
+              <Label htmlFor="scope-series">Every occurrence in the series</Label>
+            </div>
+          </RadioGroup>
+
+          {scope === 'occurrence' && (
+            <div className="space-y-2">
+              <Label htmlFor="occurrence-date">Date</Label>
+              <Input
+                id="occurrence-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                min={new Date().toISOString().split('T')[0]}
+              />
+            </div>
+          )}
+
+          {(scope === 'series' || date) && (
+            <TimeRangePicker
+              cells={availabilityCells(bookings, venue, schedule, span, booking.id)}
+              value={range}
+              onChange={setRange}
+              buffers={booking.buffers}
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => range && onConfirm({ scope, date: scope === 'occurrence' ? date : undefined, ...range })}
+            disabled={!range || (scope === 'occurrence' && !date) || isSubmitting}
+          >
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OccurrenceDialog;
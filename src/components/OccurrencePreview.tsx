@@ -0,0 +1,55 @@
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { occurrenceConflicts, type ScheduleContext, type TimeRequest } from '@/lib/availability';
+import { formatDateRange } from '@/lib/time';
+import type { Booking, Venue } from '@/lib/types';
+
+interface OccurrencePreviewProps {
+  bookings: Booking[];
+  venue: Venue;
+  schedule: ScheduleContext;
+  request: TimeRequest;
+  /** Called with the start dates of the clashing occurrences, to leave them out of the series. */
+  onSkip: (dates: string[]) => void;
+}
+
+/** Lists every occurrence of a repeating request and flags the ones that clash before it is submitted. */
+const OccurrencePreview = ({ bookings, venue, schedule, request, onSkip }: OccurrencePreviewProps) => {
+  const occurrences = occurrenceConflicts(bookings, venue, schedule, request);
+  const clashing = occurrences.filter(occurrence => occurrence.closed || occurrence.conflicts.length > 0);
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">
+          {occurrences.length} occurrence{occurrences.length === 1 ? '' : 's'}
+          {clashing.length > 0 && <span className="text-destructive">, {clashing.length} unavailable</span>}
+        </span>
+        {clashing.length > 0 && (
+          <Button type="button" size="sm" variant="outline" onClick={() => onSkip(clashing.map(occurrence => occurrence.date))}>
+            Skip unavailable dates
+          </Button>
+        )}
+      </div>
+      <ul className="max-h-40 overflow-y-auto space-y-1 text-sm">
+        {occurrences.map(({ date, endDate, conflicts, closed }) => (
+          <li key={date} className={`flex items-start space-x-2 ${closed || conflicts.length ? 'text-destructive' : ''}`}>
+            {closed || conflicts.length ? (
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            ) : (
+              <CheckCircle className="w-4 h-4 mt-0.5 shrink-0 text-green-600" />
+            )}
+            <span>
+              {formatDateRange(date, endDate)}
+              {closed
+                ? ` — ${closed}`
+                : conflicts.length > 0 && ` — clashes with ${conflicts.map(conflict => conflict.purpose).join(', ')}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default OccurrencePreview;
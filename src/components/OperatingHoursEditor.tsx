@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from 'sonner';
+import { useUpdateVenueHours } from '@/hooks/useVenueData';
+import { SCHEDULING, WEEKDAY_NAMES } from '@/lib/time';
+import type { OpeningHours, Venue } from '@/lib/types';
+
+interface OperatingHoursEditorProps {
+  venue: Venue;
+}
+
+/** One row per weekday: open or closed, and the opening and closing times. */
+const OperatingHoursEditor = ({ venue }: OperatingHoursEditorProps) => {
+  const [hours, setHours] = useState<(OpeningHours | null)[]>(venue.operatingHours);
+  const updateHours = useUpdateVenueHours();
+
+  useEffect(() => {
+    setHours(venue.operatingHours);
+  }, [venue]);
+
+  const setDay = (weekday: number, day: OpeningHours | null) =>
+    setHours(hours.map((current, index) => (index === weekday ? day : current)));
+
+  const handleSave = () => {
+    updateHours.mutate({ id: venue.id, operatingHours: hours }, {
+      onSuccess: () => toast.success(`Saved opening hours for ${venue.name}.`),
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {WEEKDAY_NAMES.map((name, weekday) => {
+        const day = hours[weekday];
+        return (
+          <div key={name} className="grid grid-cols-[8rem_1fr_1fr] items-center gap-3 text-sm">
+            <label className="flex items-center space-x-2">
+              <Checkbox
+                checked={day !== null}
+                onCheckedChange={(open) =>
+                  setDay(weekday, open ? { open: SCHEDULING.dayStart, close: SCHEDULING.dayEnd } : null)}
+              />
+              <span>{name}</span>
+            </label>
+            {day ? (
+              <>
+                <Input
+                  type="time"
+                  step={SCHEDULING.granularityMinutes * 60}
+                  value={day.open}
+                  onChange={(e) => setDay(weekday, { ...day, open: e.target.value })}
+                />
+                <Input
+                  type="time"
+                  step={SCHEDULING.granularityMinutes * 60}
+                  value={day.close}
+                  onChange={(e) => setDay(weekday, { ...day, close: e.target.value })}
+                />
+              </>
+            ) : (
+              <span className="col-span-2 text-muted-foreground">Closed</span>
+            )}
+          </div>
+        );
+      })}
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSave} disabled={updateHours.isPending}>
+          Save Hours
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default OperatingHoursEditor;
@@ -1,14 +1,18 @@
-
 import { useAuth } from '@/hooks/useAuth';
-import { Navigate } from 'react-router-dom';
-import { Loader2 } from 'lucide-react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { User } from '@/lib/types';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  /** Extra check on the signed-in user, typically a helper from `@/lib/auth/permissions`. */
+  allow?: (user: User) => boolean;
 }
 
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { isAuthenticated, isLoading } = useAuth();
+const ProtectedRoute = ({ children, allow }: ProtectedRouteProps) => {
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -22,7 +26,25 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
   }
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    // Remember where the user was headed so signing in takes them back there
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (allow && !allow(user)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="text-center space-y-4 max-w-md">
+          <ShieldAlert className="w-12 h-12 mx-auto text-destructive" />
+          <h1 className="text-2xl font-semibold text-foreground">Access denied</h1>
+          <p className="text-muted-foreground">
+            Your role does not have permission to open this page.
+          </p>
+          <Button asChild variant="outline">
+            <Link to="/">Back to venues</Link>
+          </Button>
+        </div>
+      </div>
+    );
   }
 
   return <>{children}</>;
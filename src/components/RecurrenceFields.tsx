@@ -0,0 +1,152 @@
+import { useWatch, type Control } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { FREQUENCY_LABELS, MAX_OCCURRENCES, WEEKDAY_LABELS } from '@/lib/recurrence';
+import type { BookingFormData, RecurrenceFrequency } from '@/lib/types';
+
+interface RecurrenceFieldsProps {
+  control: Control<BookingFormData>;
+  /** First day of the booking; the repeat end date cannot be earlier. */
+  minDate: string;
+}
+
+/** Repeat controls for the booking form: how often, on which weekdays and until when. */
+const RecurrenceFields = ({ control, minDate }: RecurrenceFieldsProps) => {
+  const { frequency, ends } = useWatch({ control, name: 'recurrence' });
+  const unit = frequency === 'none' ? '' : FREQUENCY_LABELS[frequency].unit;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormField
+          control={control}
+          name="recurrence.frequency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Repeats</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="none">Does not repeat</SelectItem>
+                  {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(option => (
+                    <SelectItem key={option} value={option}>{FREQUENCY_LABELS[option].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+
+        {frequency !== 'none' && (
+          <FormField
+            control={control}
+            name="recurrence.interval"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Every how many {unit}s</FormLabel>
+                <FormControl>
+                  <Input type="number" min="1" {...field} onChange={(e) => field.onChange(Number(e.target.value))} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+
+      {frequency === 'weekly' && (
+        <FormField
+          control={control}
+          name="recurrence.byWeekday"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>On</FormLabel>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                size="sm"
+                className="justify-start flex-wrap"
+                value={field.value.map(String)}
+                onValueChange={(days) => field.onChange(days.map(Number))}
+              >
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <ToggleGroupItem key={label} value={String(day)}>{label}</ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <p className="text-xs text-muted-foreground">Leave empty to repeat on the first day's weekday.</p>
+            </FormItem>
+          )}
+        />
+      )}
+
+      {frequency !== 'none' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name="recurrence.ends"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ends</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="count">After a number of occurrences</SelectItem>
+                    <SelectItem value="until">On a date</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+
+          {ends === 'count' ? (
+            <FormField
+              control={control}
+              name="recurrence.count"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Occurrences</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="1"
+                      max={MAX_OCCURRENCES}
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ) : (
+            <FormField
+              control={control}
+              name="recurrence.until"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Repeat until</FormLabel>
+                  <FormControl>
+                    <Input type="date" min={minDate} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
@@ -0,0 +1,39 @@
+import { useAuth } from '@/hooks/useAuth';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Clock } from 'lucide-react';
+
+const SessionTimeoutDialog = () => {
+  const { idleSecondsRemaining, staySignedIn, logout } = useAuth();
+
+  return (
+    <AlertDialog open={idleSecondsRemaining !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center space-x-2">
+            <Clock className="w-5 h-5" />
+            <span>Are you still there?</span>
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            You have been inactive for a while. For your security you will be signed out in{' '}
+            <span className="font-semibold text-foreground">{idleSecondsRemaining} seconds</span>.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={logout}>Sign out</AlertDialogCancel>
+          <AlertDialogAction onClick={staySignedIn}>Stay signed in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default SessionTimeoutDialog;
@@ -0,0 +1,18 @@
+import { useImage } from '@/hooks/useVenueData';
+
+interface StoredImageProps {
+  imageId: string;
+  alt: string;
+  className?: string;
+}
+
+/** An image from the image store, with a muted placeholder while it loads. */
+const StoredImage = ({ imageId, alt, className = '' }: StoredImageProps) => {
+  const { data: src } = useImage(imageId);
+  if (!src) {
+    return <div className={`bg-muted animate-pulse ${className}`} role="img" aria-label={alt} />;
+  }
+  return <img src={src} alt={alt} className={className} loading="lazy" />;
+};
+
+export default StoredImage;
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { AvailabilityCell } from '@/lib/availability';
+import { toMinutes } from '@/lib/time';
+import type { BufferTimes } from '@/lib/types';
+
+// Diagonal stripes for time held only for setup or teardown.
+const HATCHED = 'bg-[repeating-linear-gradient(135deg,transparent_0_4px,hsl(var(--muted-foreground)/0.25)_4px_8px)]';
+
+export interface TimeRange {
+  startTime: string;
+  endTime: string;
+}
+
+interface TimeRangePickerProps {
+  cells: AvailabilityCell[];
+  value: TimeRange | null;
+  onChange: (value: TimeRange | null) => void;
+  /** Setup and teardown for the selection, drawn hatched on either side of it. */
+  buffers?: BufferTimes;
+  /** Lets taken time be picked too, to join the waitlist for it. */
+  waitlist?: boolean;
+}
+
+/**
+ * Day grid of availability cells. Click a free cell to start a range and a
+ * later cell to extend it; the dropdowns set the same range precisely.
+ */
+const TimeRangePicker = ({ cells, value, onChange, buffers, waitlist = false }: TimeRangePickerProps) => {
+  const [anchor, setAnchor] = useState<AvailabilityCell | null>(null);
+
+  const isPickable = (cell: AvailabilityCell) =>
+    cell.status === 'free' || (waitlist && (cell.status === 'booked' || cell.status === 'buffer'));
+
+  const isSelected = (cell: AvailabilityCell) =>
+    !!value && toMinutes(cell.start) >= toMinutes(value.startTime) && toMinutes(cell.end) <= toMinutes(value.endTime);
+
+  // Cells the selection would hold for its own setup or teardown.
+  const isOwnBuffer = (cell: AvailabilityCell) =>
+    !!value &&
+    !!buffers &&
+    ((toMinutes(cell.end) <= toMinutes(value.startTime) &&
+      toMinutes(cell.start) >= toMinutes(value.startTime) - buffers.setupMinutes) ||
+      (toMinutes(cell.start) >= toMinutes(value.endTime) &&
+        toMinutes(cell.end) <= toMinutes(value.endTime) + buffers.teardownMinutes));
+
+  const isFreeBetween = (startTime: string, endTime: string) =>
+    cells
+      .filter(cell => toMinutes(cell.start) >= toMinutes(startTime) && toMinutes(cell.end) <= toMinutes(endTime))
+      .every(isPickable);
+
+  const handleCellClick = (cell: AvailabilityCell) => {
+    if (anchor && toMinutes(cell.start) >= toMinutes(anchor.start) && isFreeBetween(anchor.start, cell.end)) {
+      onChange({ startTime: anchor.start, endTime: cell.end });
+      setAnchor(null);
+      return;
+    }
+    onChange({ startTime: cell.start, endTime: cell.end });
+    setAnchor(cell);
+  };
+
+  const setStartTime = (startTime: string) => {
+    const cell = cells.find(candidate => candidate.start === startTime);
+    const keepEnd = !!value && toMinutes(value.endTime) > toMinutes(startTime) && isFreeBetween(startTime, value.endTime);
+    setAnchor(null);
+    onChange({ startTime, endTime: keepEnd ? value.endTime : cell.end });
+  };
+
+  const setEndTime = (endTime: string) => {
+    const cell = cells.find(candidate => candidate.end === endTime);
+    setAnchor(null);
+    onChange({ startTime: value?.startTime ?? cell.start, endTime });
+  };
+
+  const closedReasons = [...new Set(cells.filter(cell => cell.status === 'blackout').map(cell => cell.reason))];
+
+  const starts = cells.filter(isPickable).map(cell => cell.start);
+  const ends = value
+    ? cells
+        .filter(cell => toMinutes(cell.end) > toMinutes(value.startTime) && isFreeBetween(value.startTime, cell.end))
+        .map(cell => cell.end)
+    : cells.filter(isPickable).map(cell => cell.end);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 sm:grid-cols-6 gap-1">
+        {cells.map(cell => {
+          const selected = isSelected(cell);
+          const ownBuffer = !selected && isOwnBuffer(cell);
+          const unavailable = !isPickable(cell);
+          return (
+            <button
+              key={cell.start}
+              type="button"
+              title={cell.reason ?? (ownBuffer ? 'Setup or teardown for this booking' : undefined)}
+              onClick={() => !unavailable && handleCellClick(cell)}
+              className={`p-2 text-xs rounded-md border transition-colors ${
+                selected
+                  ? 'border-primary bg-primary text-primary-foreground'
+                  : cell.status === 'booked'
+                  ? `border-destructive/50 bg-destructive/10 text-destructive ${unavailable ? 'cursor-not-allowed' : ''}`
+                  : cell.status === 'closed'
+                  ? 'border-border bg-muted text-muted-foreground cursor-not-allowed'
+                  : cell.status === 'blackout'
+                  ? 'border-amber-400/60 bg-amber-50 text-amber-700 cursor-not-allowed'
+                  : cell.status === 'buffer'
+                  ? `border-destructive/30 text-destructive ${unavailable ? 'cursor-not-allowed' : ''} ${HATCHED}`
+                  : ownBuffer
+                  ? `border-primary/50 text-primary ${HATCHED}`
+                  : 'border-border hover:border-primary/50 bg-background hover:bg-primary/5'
+              }`}
+              disabled={unavailable}
+            >
+              {cell.start}
+              {cell.status === 'booked' && <div className="mt-0.5">Booked</div>}
+              {cell.status === 'buffer' && <div className="mt-0.5">Changeover</div>}
+              {cell.status === 'closed' && <div className="mt-0.5">Closed</div>}
+              {cell.status === 'blackout' && <div className="mt-0.5">Unavailable</div>}
+            </button>
+          );
+        })}
+      </div>
+
+      {closedReasons.length > 0 && (
+        <ul className="text-xs text-muted-foreground space-y-0.5">
+          {closedReasons.map(reason => (
+            <li key={reason}>Unavailable: {reason}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label>Start time</Label>
+          <Select value={value?.startTime ?? ''} onValueChange={setStartTime}>
+            <SelectTrigger>
+              <SelectValue placeholder="Start" />
+            </SelectTrigger>
+            <SelectContent>
+              {starts.map(time => (
+                <SelectItem key={time} value={time}>{time}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>End time</Label>
+          <Select value={value?.endTime ?? ''} onValueChange={setEndTime}>
+            <SelectTrigger>
+              <SelectValue placeholder="End" />
+            </SelectTrigger>
+            <SelectContent>
+              {ends.map(time => (
+                <SelectItem key={time} value={time}>{time}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimeRangePicker;
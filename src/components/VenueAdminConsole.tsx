@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Archive, ArrowLeft, Building2, Edit, Images, Pause, Play, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBookings, useDeleteVenue, useSetVenueStatus, useVenues } from '@/hooks/useVenueData';
+import { describeAmenity } from '@/lib/amenities';
+import { upcomingBookings } from '@/lib/bookings';
+import { formatLocation } from '@/lib/campus';
+import { departmentName } from '@/lib/departments';
+import { VENUE_TYPE_LABELS } from '@/lib/venue-schema';
+import type { Venue, VenueStatus } from '@/lib/types';
+import VenueFormDialog from '@/components/VenueFormDialog';
+import VenuePhotoManager from '@/components/VenuePhotoManager';
+
+const STATUS_BADGES: Record<VenueStatus, { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  active: { label: 'Active', variant: 'default' },
+  inactive: { label: 'Inactive', variant: 'secondary' },
+  archived: { label: 'Archived', variant: 'outline' }
+};
+
+/** Facilities staff's table of venues, to add, edit, deactivate, archive and delete them. */
+const VenueAdminConsole = () => {
+  const { data: venues = [] } = useVenues();
+  const { data: bookings = [] } = useBookings();
+  const setVenueStatus = useSetVenueStatus();
+  const deleteVenue = useDeleteVenue();
+
+  const [showArchived, setShowArchived] = useState(false);
+  const [editing, setEditing] = useState<{ venue: Venue | null } | null>(null);
+  const [deleting, setDeleting] = useState<Venue | null>(null);
+  // Looked up by id so the dialog follows the venue as photos are added.
+  const [photosFor, setPhotosFor] = useState<string | null>(null);
+
+  const visibleVenues = venues.filter(venue => showArchived || venue.status !== 'archived');
+
+  const changeStatus = (venue: Venue, status: VenueStatus) => {
+    setVenueStatus.mutate({ id: venue.id, status }, {
+      onSuccess: () => toast.success(`${venue.name} is now ${STATUS_BADGES[status].label.toLowerCase()}.`),
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  const confirmDelete = () => {
+    if (!deleting) return;
+    deleteVenue.mutate(deleting.id, {
+      onSuccess: () => toast.success(`Deleted ${deleting.name}.`),
+      onError: (error) => toast.error(error.message),
+      onSettled: () => setDeleting(null)
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/30 to-accent/10">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Building2 className="w-8 h-8 text-primary" />
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Venue Administration</h1>
+              <p className="text-sm text-muted-foreground">Add venues, keep their details and photos current and retire them.</p>
+            </div>
+          </div>
+          <Button asChild variant="outline" size="sm">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to venues
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Venues</CardTitle>
+              <CardDescription>
+                Inactive venues take no new bookings. Venues with upcoming bookings cannot be archived or deleted.
+              </CardDescription>
+            </div>
+            <Button size="sm" onClick={() => setEditing({ venue: null })}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Venue
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="show-archived" checked={showArchived} onCheckedChange={(checked) => setShowArchived(checked === true)} />
+              <Label htmlFor="show-archived">Show archived venues</Label>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Capacity</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Amenities</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Upcoming</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleVenues.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">
+                      No venues yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {visibleVenues.map(venue => {
+                  const upcoming = upcomingBookings(bookings, venue.id).length;
+                  const retireHint = upcoming > 0 ? 'Cancel or move its upcoming bookings first' : undefined;
+                  return (
+                    <TableRow key={venue.id} className={venue.status === 'archived' ? 'text-muted-foreground' : undefined}>
+                      <TableCell className="font-medium">{venue.name}</TableCell>
+                      <TableCell>{VENUE_TYPE_LABELS[venue.type]}</TableCell>
+                      <TableCell className="text-right">{venue.capacity}</TableCell>
+                      <TableCell>{formatLocation(venue.location)}</TableCell>
+                      <TableCell className="max-w-48 truncate" title={venue.amenities.map(describeAmenity).join(', ')}>
+                        {venue.amenities.map(describeAmenity).join(', ')}
+                      </TableCell>
+                      <TableCell>{venue.department ? departmentName(venue.department) : 'Central'}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGES[venue.status].variant}>{STATUS_BADGES[venue.status].label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{upcoming}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end space-x-1">
+                          <Button size="sm" variant="ghost" title="Edit" onClick={() => setEditing({ venue })}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" title="Photos" onClick={() => setPhotosFor(venue.id)}>
+                            <Images className="w-4 h-4" />
+                          </Button>
+                          {venue.status === 'active' ? (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Deactivate"
+                              onClick={() => changeStatus(venue, 'inactive')}
+                              disabled={setVenueStatus.isPending}
+                            >
+                              <Pause className="w-4 h-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Activate"
+                              onClick={() => changeStatus(venue, 'active')}
+                              disabled={setVenueStatus.isPending}
+                            >
+                              <Play className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {venue.status !== 'archived' && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title={retireHint ?? 'Archive'}
+                              onClick={() => changeStatus(venue, 'archived')}
+                              disabled={upcoming > 0 || setVenueStatus.isPending}
+                            >
+                              <Archive className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title={retireHint ?? 'Delete'}
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => setDeleting(venue)}
+                            disabled={upcoming > 0}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <VenueFormDialog
+        open={editing !== null}
+        venue={editing?.venue ?? null}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+
+      <VenuePhotoManager
+        venue={venues.find(venue => venue.id === photosFor) ?? null}
+        onOpenChange={(open) => !open && setPhotosFor(null)}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The venue and its closures are removed for good; past bookings keep its name. Archive it instead to keep it on record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Venue</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={confirmDelete}
+              disabled={deleteVenue.isPending}
+            >
+              Delete Venue
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default VenueAdminConsole;
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import OperatingHoursEditor from '@/components/OperatingHoursEditor';
+import VenueClosures from '@/components/VenueClosures';
+import type { Venue, VenueClosure } from '@/lib/types';
+
+interface VenueAvailabilityPanelProps {
+  venues: Venue[];
+  closures: VenueClosure[];
+}
+
+/** Facilities staff's view of when each venue can be booked. */
+const VenueAvailabilityPanel = ({ venues, closures }: VenueAvailabilityPanelProps) => {
+  const [venueId, setVenueId] = useState<string>('');
+  const venue = venues.find(candidate => candidate.id === venueId) ?? venues[0];
+
+  if (!venue) return null;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2 max-w-sm">
+        <Label>Venue</Label>
+        <Select value={venue.id} onValueChange={setVenueId}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {venues.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Opening Hours</CardTitle>
+            <CardDescription>Bookings must fall within these hours on each weekday.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <OperatingHoursEditor venue={venue} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Blackouts &amp; Maintenance</CardTitle>
+            <CardDescription>Requesters see the reason on the booking grid.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <VenueClosures venue={venue} closures={closures} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default VenueAvailabilityPanel;
@@ -5,162 +5,149 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { Building2, Calendar, Clock, Users, MapPin, ChevronDown, ChevronUp, Filter, Search, Plus, Edit, Trash2, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Building2, Calendar, CalendarDays, Clock, Users, MapPin, ChevronDown, ChevronUp, Filter, Search, Plus, Edit, CheckCircle, XCircle, AlertCircle, ArrowUpRight, Hourglass, Timer, RotateCcw, Ban, Settings, MapIcon } from 'lucide-react';
 import { useForm } from 'react-hook-form';
+import { Link } from 'react-router-dom';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
 import { useAuth } from '@/hooks/useAuth';
 import { LogOut, User } from 'lucide-react';
-
-interface Venue {
-  id: string;
-  name: string;
-  capacity: number;
-  location: string;
-  amenities: string[];
-  image: string;
-  type: 'classroom' | 'auditorium' | 'lab' | 'conference' | 'outdoor';
-}
-
-interface Booking {
-  id: string;
-  venueId: string;
-  venueName: string;
-  date: string;
-  timeSlot: string;
-  purpose: string;
-  bookedBy: string;
-  status: 'pending' | 'approved' | 'rejected';
-  attendees: number;
-  requirements: string;
-  contactEmail: string;
-  department: string;
-}
-
-interface BookingFormData {
-  purpose: string;
-  attendees: number;
-  requirements: string;
-  contactEmail: string;
-  department: string;
-}
+import { useAcademicCalendar, useBookings, useCancelBooking, useClosures, useCreateBooking, useEditBooking, useEscalateBooking, useRestoreBooking, useUpdateBookingStatus, useVenues } from '@/hooks/useVenueData';
+import { canApprove, canBook, canCancel, canComment, canEscalate, canManageCalendar, canManageVenues, isApprover, roleLabel } from '@/lib/auth/permissions';
+import { DEPARTMENTS, departmentName } from '@/lib/departments';
+import { APPROVAL_STAGES, stageProgress } from '@/lib/workflow';
+import { waitlistPosition } from '@/lib/waitlist';
+import { HOLD_DURATION_HOURS } from '@/lib/holds';
+import ApprovalProgress from '@/components/ApprovalProgress';
+import BookingComments from '@/components/BookingComments';
+import BookingHistory from '@/components/BookingHistory';
+import DecisionDialog from '@/components/DecisionDialog';
+import CancelBookingDialog from '@/components/CancelBookingDialog';
+import TimeRangePicker, { type TimeRange } from '@/components/TimeRangePicker';
+import RecurrenceFields from '@/components/RecurrenceFields';
+import OccurrencePreview from '@/components/OccurrencePreview';
+import BookingOccurrences from '@/components/BookingOccurrences';
+import VenueAvailabilityPanel from '@/components/VenueAvailabilityPanel';
+import AcademicCalendarPanel from '@/components/AcademicCalendarPanel';
+import CalendarNotice from '@/components/CalendarNotice';
+import NotificationBell from '@/components/NotificationBell';
+import HoldCountdown from '@/components/HoldCountdown';
+import VenueGallery from '@/components/VenueGallery';
+import CampusMap, { type MapSlot } from '@/components/CampusMap';
+import AmenityIcon from '@/components/AmenityIcon';
+import { AMENITY_IDS, amenityName, describeAmenity, hasAmenities } from '@/lib/amenities';
+import { BUILDINGS, buildingName, CAMPUSES, campusName, findBuilding, formatLocation, groupByBuilding } from '@/lib/campus';
+import { calendarRestrictions } from '@/lib/academic-calendar';
+import { canCancelStatus, canEditStatus, needsReapproval } from '@/lib/booking-changes';
+import { BOOKING_RULES, bookingRuleViolations, describeBookingRule } from '@/lib/booking-rules';
+import { bookingDetailsSchema, UNIVERSITY_EMAIL_DOMAIN } from '@/lib/booking-schema';
+import { availabilityCells, findConflicts, formatBuffers, occupiedDates } from '@/lib/availability';
+import { DEFAULT_RECURRENCE_FORM, fromRecurrence, toRecurrence, validateRecurrence } from '@/lib/recurrence';
+import { addDays, formatDateRange, formatTimeRange, SCHEDULING } from '@/lib/time';
+import type { AmenityId, Booking, BookingFormData, BufferTimes, RecurrenceFormData, Venue } from '@/lib/types';
+import { toast } from 'sonner';
 
 const VenueBookingSystem = () => {
   const { user, logout } = useAuth();
   
-  const [venues] = useState<Venue[]>([
-    {
-      id: '1',
-      name: 'Main Auditorium',
-      capacity: 500,
-      location: 'Academic Block A',
-      amenities: ['Projector', 'Sound System', 'AC', 'Stage'],
-      image: '/api/placeholder/400/250',
-      type: 'auditorium'
-    },
-    {
-      id: '2',
-      name: 'Conference Hall',
-      capacity: 50,
-      location: 'Administrative Block',
-      amenities: ['Projector', 'Whiteboard', 'AC', 'WiFi'],
-      image: '/api/placeholder/400/250',
-      type: 'conference'
-    },
-    {
-      id: '3',
-      name: 'Computer Lab 1',
-      capacity: 40,
-      location: 'IT Block',
-      amenities: ['Computers', 'Projector', 'AC', 'WiFi'],
-      image: '/api/placeholder/400/250',
-      type: 'lab'
-    },
-    {
-      id: '4',
-      name: 'Classroom 101',
-      capacity: 60,
-      location: 'Academic Block B',
-      amenities: ['Projector', 'Whiteboard', 'AC'],
-      image: '/api/placeholder/400/250',
-      type: 'classroom'
-    },
-    {
-      id: '5',
-      name: 'Sports Ground',
-      capacity: 200,
-      location: 'Sports Complex',
-      amenities: ['Open Air', 'Lighting', 'Seating'],
-      image: '/api/placeholder/400/250',
-      type: 'outdoor'
-    },
-    {
-      id: '6',
-      name: 'Seminar Hall',
-      capacity: 100,
-      location: 'Academic Block C',
-      amenities: ['Projector', 'Sound System', 'AC', 'Stage'],
-      image: '/api/placeholder/400/250',
-      type: 'auditorium'
-    }
-  ]);
-
-  const [bookings, setBookings] = useState<Booking[]>([
-    {
-      id: '1',
-      venueId: '1',
-      venueName: 'Main Auditorium',
-      date: '2024-01-15',
-      timeSlot: '09:00-11:00',
-      purpose: 'Annual Function',
-      bookedBy: 'Dr. Smith',
-      status: 'approved',
-      attendees: 300,
-      requirements: 'Stage decoration, sound system',
-      contactEmail: 'dr.smith@geeta.edu',
-      department: 'Cultural Committee'
-    },
-    {
-      id: '2',
-      venueId: '2',
-      venueName: 'Conference Hall',
-      date: '2024-01-16',
-      timeSlot: '14:00-16:00',
-      purpose: 'Department Meeting',
-      bookedBy: 'Prof. Johnson',
-      status: 'pending',
-      attendees: 25,
-      requirements: 'Projector, refreshments',
-      contactEmail: 'prof.johnson@geeta.edu',
-      department: 'Computer Science'
-    }
-  ]);
+  const { data: venues = [] } = useVenues();
+  const { data: bookings = [] } = useBookings();
+  const { data: closures = [] } = useClosures();
+  const { data: calendar = [] } = useAcademicCalendar();
+  const schedule = { closures, calendar };
+  const createBooking = useCreateBooking();
+  const editBooking = useEditBooking();
+  const setBookingStatus = useUpdateBookingStatus();
+  const escalate = useEscalateBooking();
+  const cancelBooking = useCancelBooking();
+  const restoreBooking = useRestoreBooking();
 
   const [selectedVenue, setSelectedVenue] = useState<Venue | null>(null);
-  const [selectedDate, setSelectedDate] = useState<string>('');
-  const [selectedTimeSlot, setSelectedTimeSlot] = useState<string>('');
+  // The booking the dialog is editing; null when making a new one.
+  const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
+  const [skippedDates, setSkippedDates] = useState<string[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
   const [filterCapacity, setFilterCapacity] = useState<number>(0);
+  const [filterAmenities, setFilterAmenities] = useState<AmenityId[]>([]);
+  const [filterBuilding, setFilterBuilding] = useState<string>('all');
+  const [groupVenues, setGroupVenues] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [isBookingDialogOpen, setIsBookingDialogOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'venues' | 'bookings'>('venues');
+  const [activeTab, setActiveTab] = useState<'venues' | 'bookings' | 'map' | 'availability' | 'calendar'>('venues');
+  const [showReviewQueue, setShowReviewQueue] = useState(false);
+  const [pendingDecision, setPendingDecision] = useState<{ booking: Booking; status: 'approved' | 'rejected' } | null>(null);
+  const [pendingCancellation, setPendingCancellation] = useState<Booking | null>(null);
 
   const form = useForm<BookingFormData>({
+    // Rebuilt on every validation, as it depends on the venue and the current bookings.
+    resolver: (values, context, options) => zodResolver(bookingFormSchema())(values, context, options),
     defaultValues: {
+      date: '',
+      endDate: '',
+      startTime: '',
+      endTime: '',
       purpose: '',
       attendees: 1,
       requirements: '',
       contactEmail: '',
-      department: ''
+      department: user?.department ?? '',
+      recurrence: DEFAULT_RECURRENCE_FORM,
+      buffers: { setupMinutes: 0, teardownMinutes: 0 },
+      waitlist: false,
+      hold: false
     }
   });
 
-  const timeSlots = [
-    '09:00-10:00', '10:00-11:00', '11:00-12:00', '12:00-13:00',
-    '13:00-14:00', '14:00-15:00', '15:00-16:00', '16:00-17:00', '17:00-18:00'
-  ];
+  // An edited booking does not clash with itself.
+  const otherBookings = editingBooking ? bookings.filter(booking => booking.id !== editingBooking.id) : bookings;
+
+  const selectedDate = form.watch('date');
+  const selectedEndDate = form.watch('endDate');
+  const [selectedStart, selectedEnd] = form.watch(['startTime', 'endTime']);
+  const selectedRange: TimeRange | null = selectedStart && selectedEnd ? { startTime: selectedStart, endTime: selectedEnd } : null;
+  const selectedSpan = {
+    date: selectedDate,
+    endDate: selectedEndDate || selectedDate,
+    recurrence: toRecurrence(form.watch('recurrence'), skippedDates)
+  };
+  const recurrenceError = selectedDate && selectedSpan.recurrence
+    ? validateRecurrence(selectedSpan.date, selectedSpan.endDate, selectedSpan.recurrence)
+    : null;
+  const selectedBuffers = form.watch('buffers');
+  const joinWaitlist = form.watch('waitlist');
+  const selectedConflicts = selectedVenue && selectedDate && selectedRange
+    ? findConflicts(otherBookings, { venueId: selectedVenue.id, ...selectedSpan, ...selectedRange, buffers: selectedBuffers })
+    : [];
+  // Without the waitlist the grid only offers free time, so a one-off clash here comes from the setup or teardown.
+  const changeoverClash = !joinWaitlist && !selectedSpan.recurrence ? selectedConflicts[0] : undefined;
+  const waitlisting = joinWaitlist && selectedConflicts.length > 0;
+  const selectedRestrictions = selectedVenue && selectedDate && !recurrenceError
+    ? calendarRestrictions(selectedVenue, calendar, occupiedDates(selectedSpan))
+    : [];
+  const calendarBlocked = selectedRestrictions.some(restriction => restriction.effect === 'block');
+  // A series already under way keeps its first day when edited.
+  const today = new Date().toISOString().split('T')[0];
+  const earliestDate = editingBooking && editingBooking.date < today ? editingBooking.date : today;
+  // Approvals already given are lost if the edit has to be approved again.
+  const losesApprovals = !!editingBooking && !!selectedVenue && editingBooking.status !== 'held' &&
+    (editingBooking.status === 'approved' || editingBooking.approvals.length > 0) &&
+    !!selectedRange &&
+    needsReapproval(editingBooking, {
+      ...editingBooking,
+      venueId: selectedVenue.id,
+      ...selectedSpan,
+      ...selectedRange,
+      buffers: selectedBuffers,
+      attendees: form.watch('attendees'),
+      department: form.watch('department')
+    });
 
   const venueTypes = [
     { value: 'all', label: 'All Types' },
@@ -173,63 +160,268 @@ const VenueBookingSystem = () => {
 
   const filteredVenues = venues.filter(venue => {
     const matchesSearch = venue.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         venue.location.toLowerCase().includes(searchTerm.toLowerCase());
+                         formatLocation(venue.location).toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         campusName(findBuilding(venue.location.buildingId)?.campusId).toLowerCase().includes(searchTerm.toLowerCase());
     const matchesType = filterType === 'all' || venue.type === filterType;
+    const matchesBuilding = filterBuilding === 'all' || venue.location.buildingId === filterBuilding;
     const matchesCapacity = filterCapacity === 0 || venue.capacity >= filterCapacity;
     
-    return matchesSearch && matchesType && matchesCapacity;
+    return venue.status === 'active' && matchesSearch && matchesType && matchesBuilding && matchesCapacity && hasAmenities(venue, filterAmenities);
   });
 
-  const isTimeSlotBooked = (venueId: string, date: string, timeSlot: string) => {
-    return bookings.some(booking => 
-      booking.venueId === venueId && 
-      booking.date === date && 
-      booking.timeSlot === timeSlot &&
-      booking.status !== 'rejected'
+  // Only amenities some bookable venue has are worth filtering on
+  const filterableAmenities = AMENITY_IDS.filter(id =>
+    venues.some(venue => venue.status === 'active' && venue.amenities.some(amenity => amenity.id === id))
+  );
+
+  const venueFor = (venueId: string) => venues.find(venue => venue.id === venueId);
+
+  const venueCard = (venue: Venue) => (
+    <Card key={venue.id} className="venue-card overflow-hidden group">
+      <div className="relative h-48">
+        <VenueGallery venue={venue} thumbnails />
+        <div className="absolute top-2 right-2">
+          <span className="px-2 py-1 bg-white/90 text-xs font-medium rounded-full capitalize">
+            {venue.type}
+          </span>
+        </div>
+      </div>
+
+      <CardContent className="p-6">
+        <div className="space-y-4">
+          <div>
+            <h3 className="text-xl font-semibold text-foreground group-hover:text-primary transition-colors">
+              {venue.name}
+            </h3>
+            <div className="flex items-center space-x-4 text-sm text-muted-foreground mt-2">
+              <div className="flex items-center space-x-1">
+                <MapPin className="w-4 h-4" />
+                <span>{formatLocation(venue.location)}</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <Users className="w-4 h-4" />
+                <span>{venue.capacity} people</span>
+              </div>
+            </div>
+            {formatBuffers(venue.buffers) && (
+              <p className="text-xs text-muted-foreground mt-1">Holds {formatBuffers(venue.buffers)} around each booking</p>
+            )}
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-foreground mb-2">Amenities:</p>
+            <div className="flex flex-wrap gap-1">
+              {venue.amenities.map(amenity => (
+                <span
+                  key={amenity.id}
+                  className="flex items-center space-x-1 px-2 py-1 bg-accent/10 text-accent text-xs rounded-full"
+                >
+                  <AmenityIcon id={amenity.id} />
+                  <span>{describeAmenity(amenity)}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            onClick={() => handleBookVenue(venue)}
+            className="w-full"
+            variant="venue"
+            disabled={!canBook(user)}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Book This Venue
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  // Requests the signed-in approver can act on right now
+  const reviewQueue = bookings.filter(booking =>
+    booking.status === 'pending' &&
+    (canApprove(user, booking, venueFor(booking.venueId)) || canEscalate(user, booking, venueFor(booking.venueId)))
+  );
+
+  const visibleBookings = showReviewQueue ? reviewQueue : bookings;
+
+  // The venue type's lead time, horizon, duration and weekly limit, checked
+  // as the dates and times change and again on submit.
+  const ruleViolations = (values: BookingFormData) => {
+    if (!selectedVenue || !values.date || !values.startTime || !values.endTime) return [];
+    const ownBookings = otherBookings.filter(booking =>
+      booking.bookedBy === user?.username && venueFor(booking.venueId)?.type === selectedVenue.type
     );
+    return bookingRuleViolations(selectedVenue.type, {
+      date: values.date,
+      endDate: values.endDate || values.date,
+      startTime: values.startTime,
+      endTime: values.endTime,
+      recurrence: toRecurrence(values.recurrence, skippedDates)
+    }, ownBookings);
   };
 
-  const handleBookVenue = (venue: Venue) => {
+  // The shared booking details plus the schedule picked in the dialog.
+  const bookingFormSchema = () =>
+    bookingDetailsSchema(selectedVenue?.capacity ?? 0)
+      .extend({
+        date: z.string().min(1, 'Choose the first day.'),
+        endDate: z.string(),
+        startTime: z.string(),
+        endTime: z.string().min(1, 'Pick a time range on the grid.'),
+        recurrence: z.custom<RecurrenceFormData>(),
+        buffers: z.custom<BufferTimes>(),
+        waitlist: z.boolean(),
+        hold: z.boolean()
+      })
+      .superRefine((values, ctx) =>
+        ruleViolations(values as BookingFormData).forEach(({ field, message }) => ctx.addIssue({ code: 'custom', path: [field], message }))
+      );
+
+  const selectDates = (date: string, endDate: string) => {
+    form.setValue('date', date);
+    form.setValue('endDate', endDate && endDate >= date ? endDate : '');
+    selectRange(null);
+  };
+
+  const selectRange = (range: TimeRange | null) => {
+    form.setValue('startTime', range?.startTime ?? '');
+    form.setValue('endTime', range?.endTime ?? '');
+    form.trigger(['date', 'endTime']);
+  };
+
+  const handleBookVenue = (venue: Venue, slot: Partial<MapSlot> = {}) => {
     setSelectedVenue(venue);
+    form.setValue('buffers', venue.buffers);
+    if (slot.date) form.setValue('date', slot.date);
+    if (slot.startTime && slot.endTime) {
+      form.setValue('startTime', slot.startTime);
+      form.setValue('endTime', slot.endTime);
+    }
     setIsBookingDialogOpen(true);
   };
 
+  const handleEditBooking = (booking: Booking) => {
+    const venue = venueFor(booking.venueId);
+    if (!venue) return;
+    setEditingBooking(booking);
+    setSelectedVenue(venue);
+    setSkippedDates(booking.recurrence?.exceptions ?? []);
+    form.reset({
+      date: booking.date,
+      endDate: booking.endDate === booking.date ? '' : booking.endDate,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      purpose: booking.purpose,
+      attendees: booking.attendees,
+      requirements: booking.requirements,
+      contactEmail: booking.contactEmail,
+      department: booking.department,
+      recurrence: fromRecurrence(booking.recurrence),
+      buffers: booking.buffers,
+      waitlist: false,
+      hold: false
+    });
+    setIsBookingDialogOpen(true);
+  };
+
+  const handleChangeVenue = (venueId: string) => {
+    const venue = venueFor(venueId);
+    if (!venue) return;
+    setSelectedVenue(venue);
+    form.setValue('buffers', venue.buffers);
+    selectRange(null);
+  };
+
+  const closeBookingDialog = () => {
+    setIsBookingDialogOpen(false);
+    form.reset();
+    setSelectedVenue(null);
+    setEditingBooking(null);
+    setSkippedDates([]);
+  };
+
   const onSubmitBooking = (data: BookingFormData) => {
-    if (!selectedVenue || !selectedDate || !selectedTimeSlot) return;
+    if (!selectedVenue || !data.date || !data.startTime || !data.endTime) return;
 
-    const newBooking: Booking = {
-      id: Date.now().toString(),
+    const violations = ruleViolations(data);
+    if (violations.length > 0) {
+      violations.forEach(({ field, message }) => form.setError(field, { message }));
+      return;
+    }
+
+    const request = {
       venueId: selectedVenue.id,
       venueName: selectedVenue.name,
-      date: selectedDate,
-      timeSlot: selectedTimeSlot,
+      date: data.date,
+      endDate: data.endDate || data.date,
+      startTime: data.startTime,
+      endTime: data.endTime,
       purpose: data.purpose,
-      bookedBy: user?.username || 'Unknown User',
-      status: 'pending',
       attendees: data.attendees,
       requirements: data.requirements,
       contactEmail: data.contactEmail,
-      department: data.department
+      department: data.department,
+      recurrence: toRecurrence(data.recurrence, skippedDates),
+      buffers: data.buffers
     };
 
-    setBookings(prev => [...prev, newBooking]);
-    setIsBookingDialogOpen(false);
-    form.reset();
-    setSelectedVenue(null);
-    setSelectedDate('');
-    setSelectedTimeSlot('');
+    if (editingBooking) {
+      editBooking.mutate({ id: editingBooking.id, input: request }, {
+        onSuccess: (booking) => {
+          const change = booking.history.length > editingBooking.history.length ? booking.history[booking.history.length - 1] : null;
+          toast.success(!change ? 'Nothing was changed.' : change.reapproval ? 'Booking updated; it needs to be approved again.' : 'Booking updated.');
+          closeBookingDialog();
+        },
+        onError: (error) => toast.error(error.message)
+      });
+      return;
+    }
+
+    createBooking.mutate({ ...request, waitlist: data.waitlist, hold: data.hold }, {
+      onSuccess: (booking) => {
+        if (booking.status === 'waitlisted') {
+          toast.success(`You're on the waitlist for ${booking.venueName}. We'll notify you if the time frees up.`);
+        } else if (booking.status === 'held') {
+          toast.success(`Held until ${new Date(booking.heldUntil).toLocaleString()}. Confirm it from My Bookings before then.`);
+        }
+        closeBookingDialog();
+      },
+      onError: (error) => toast.error(error.message)
+    });
   };
 
-  const updateBookingStatus = (bookingId: string, status: 'approved' | 'rejected') => {
-    setBookings(prev => 
-      prev.map(booking => 
-        booking.id === bookingId ? { ...booking, status } : booking
-      )
-    );
+  const updateBookingStatus = (bookingId: string, status: 'approved' | 'rejected', note: string) => {
+    setBookingStatus.mutate({ id: bookingId, status, note }, {
+      onSuccess: () => setPendingDecision(null),
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  const escalateBooking = (bookingId: string) => {
+    escalate.mutate(bookingId, {
+      onSuccess: (booking) => toast.success(`Escalated to the ${departmentName(booking.escalation?.toDepartment)} HOD.`),
+      onError: (error) => toast.error(error.message)
+    });
   };
 
-  const deleteBooking = (bookingId: string) => {
-    setBookings(prev => prev.filter(booking => booking.id !== bookingId));
+  const confirmCancellation = (bookingId: string, reason: string) => {
+    cancelBooking.mutate({ id: bookingId, reason }, {
+      onSuccess: (booking) => {
+        setPendingCancellation(null);
+        toast(`Cancelled ${booking.purpose}.`, {
+          action: { label: 'Undo', onClick: () => undoCancellation(booking.id) }
+        });
+      },
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  const undoCancellation = (bookingId: string) => {
+    restoreBooking.mutate(bookingId, {
+      onSuccess: (booking) => toast.success(`Restored ${booking.purpose}.`),
+      onError: (error) => toast.error(error.message)
+    });
   };
 
   const getStatusIcon = (status: string) => {
@@ -238,17 +430,42 @@ const VenueBookingSystem = () => {
         return <CheckCircle className="w-4 h-4 text-green-500" />;
       case 'rejected':
         return <XCircle className="w-4 h-4 text-red-500" />;
+      case 'waitlisted':
+        return <Hourglass className="w-4 h-4 text-blue-500" />;
+      case 'held':
+        return <Timer className="w-4 h-4 text-purple-500" />;
+      case 'expired':
+        return <XCircle className="w-4 h-4 text-muted-foreground" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-muted-foreground" />;
       default:
         return <AlertCircle className="w-4 h-4 text-yellow-500" />;
     }
   };
 
+  const getStatusLabel = (booking: Booking) => {
+    if (booking.status === 'waitlisted') return `Waitlisted (#${waitlistPosition(bookings, booking)})`;
+    if (booking.status === 'expired') return 'Hold expired';
+    const { stage, position, total } = stageProgress(booking);
+    if (!stage) return booking.status;
+    return total > 1
+      ? `Awaiting ${APPROVAL_STAGES[stage].label} (${position}/${total})`
+      : `Awaiting ${APPROVAL_STAGES[stage].label}`;
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'approved':
         return 'text-green-600 bg-green-50 border-green-200';
       case 'rejected':
         return 'text-red-600 bg-red-50 border-red-200';
+      case 'waitlisted':
+        return 'text-blue-600 bg-blue-50 border-blue-200';
+      case 'held':
+        return 'text-purple-600 bg-purple-50 border-purple-200';
+      case 'expired':
+      case 'cancelled':
+        return 'text-muted-foreground bg-muted border-border';
       default:
         return 'text-yellow-600 bg-yellow-50 border-yellow-200';
     }
@@ -271,11 +488,20 @@ const VenueBookingSystem = () => {
             </div>
             
             <div className="flex items-center space-x-4">
+              {canManageVenues(user) && (
+                <Button asChild variant="ghost" size="sm">
+                  <Link to="/admin/venues">
+                    <Settings className="w-4 h-4 mr-1" />
+                    Manage Venues
+                  </Link>
+                </Button>
+              )}
+              <NotificationBell />
               <div className="flex items-center space-x-2 text-sm">
                 <User className="w-4 h-4" />
                 <span className="font-medium">{user?.username}</span>
-                <span className="px-2 py-1 bg-primary/10 text-primary text-xs rounded-full capitalize">
-                  {user?.userType}
+                <span className="px-2 py-1 bg-primary/10 text-primary text-xs rounded-full">
+                  {user && roleLabel(user.userType)}
                 </span>
               </div>
               <Button
@@ -312,8 +538,54 @@ const VenueBookingSystem = () => {
             <Calendar className="w-4 h-4" />
             <span>My Bookings</span>
           </Button>
+          <Button
+            variant={activeTab === 'map' ? 'default' : 'ghost'}
+            onClick={() => setActiveTab('map')}
+            className="flex items-center space-x-2"
+          >
+            <MapIcon className="w-4 h-4" />
+            <span>Campus Map</span>
+          </Button>
+          {canManageVenues(user) && (
+            <Button
+              variant={activeTab === 'availability' ? 'default' : 'ghost'}
+              onClick={() => setActiveTab('availability')}
+              className="flex items-center space-x-2"
+            >
+              <Clock className="w-4 h-4" />
+              <span>Venue Availability</span>
+            </Button>
+          )}
+          {canManageCalendar(user) && (
+            <Button
+              variant={activeTab === 'calendar' ? 'default' : 'ghost'}
+              onClick={() => setActiveTab('calendar')}
+              className="flex items-center space-x-2"
+            >
+              <CalendarDays className="w-4 h-4" />
+              <span>Academic Calendar</span>
+            </Button>
+          )}
         </div>
 
+        {activeTab === 'map' && (
+          <CampusMap
+            venues={venues.filter(venue => venue.status === 'active')}
+            bookings={bookings}
+            schedule={schedule}
+            canBook={canBook(user)}
+            onBook={handleBookVenue}
+          />
+        )}
+
+        {activeTab === 'availability' && canManageVenues(user) && (
+          <VenueAvailabilityPanel venues={venues.filter(venue => venue.status !== 'archived')} closures={closures} />
+        )}
+
+        {activeTab === 'calendar' && canManageCalendar(user) && (
+          <AcademicCalendarPanel periods={calendar} />
+        )}
+
         {activeTab === 'venues' && (
           <>
             {/* Search and Filter Section */}
@@ -344,7 +616,7 @@ const VenueBookingSystem = () => {
                 <div className="relative">
                   <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
-                    placeholder="Search venues by name or location..."
+                    placeholder="Search venues by name, building or room..."
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="pl-10"
@@ -353,7 +625,7 @@ const VenueBookingSystem = () => {
                 
                 <Collapsible open={showFilters} onOpenChange={setShowFilters}>
                   <CollapsibleContent className="space-y-4">
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-4 border-t">
                       <div>
                         <Label htmlFor="venue-type">Venue Type</Label>
                         <select
@@ -369,6 +641,26 @@ const VenueBookingSystem = () => {
                           ))}
                         </select>
                       </div>
+                      <div>
+                        <Label htmlFor="venue-building">Building</Label>
+                        <select
+                          id="venue-building"
+                          value={filterBuilding}
+                          onChange={(e) => setFilterBuilding(e.target.value)}
+                          className="w-full mt-1 p-2 border border-input rounded-md bg-background"
+                        >
+                          <option value="all">All Buildings</option>
+                          {CAMPUSES.map(campus => (
+                            <optgroup key={campus.id} label={campus.name}>
+                              {BUILDINGS.filter(building => building.campusId === campus.id).map(building => (
+                                <option key={building.id} value={building.id}>
+                                  {building.name}
+                                </option>
+                              ))}
+                            </optgroup>
+                          ))}
+                        </select>
+                      </div>
                       <div>
                         <Label htmlFor="min-capacity">Minimum Capacity</Label>
                         <Input
@@ -381,71 +673,63 @@ const VenueBookingSystem = () => {
                         />
                       </div>
                     </div>
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <Label>Amenities</Label>
+                        {filterAmenities.length > 0 && (
+                          <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setFilterAmenities([])}>
+                            Clear
+                          </Button>
+                        )}
+                      </div>
+                      <ToggleGroup
+                        type="multiple"
+                        variant="outline"
+                        size="sm"
+                        value={filterAmenities}
+                        onValueChange={(ids) => setFilterAmenities(ids as AmenityId[])}
+                        className="flex-wrap justify-start mt-1"
+                      >
+                        {filterableAmenities.map(id => (
+                          <ToggleGroupItem key={id} value={id} aria-label={amenityName(id)} className="space-x-1">
+                            <AmenityIcon id={id} className="w-4 h-4" />
+                            <span>{amenityName(id)}</span>
+                          </ToggleGroupItem>
+                        ))}
+                      </ToggleGroup>
+                      <p className="text-xs text-muted-foreground mt-1">Venues must have every amenity selected.</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox id="group-venues" checked={groupVenues} onCheckedChange={(checked) => setGroupVenues(checked === true)} />
+                      <Label htmlFor="group-venues">Group venues by building</Label>
+                    </div>
                   </CollapsibleContent>
                 </Collapsible>
               </CardContent>
             </Card>
 
             {/* Venues Grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredVenues.map((venue) => (
-                <Card key={venue.id} className="venue-card overflow-hidden group">
-                  <div className="relative h-48 bg-gradient-to-br from-primary/10 to-accent/10">
-                    <div className="absolute inset-0 flex items-center justify-center">
-                      <Building2 className="w-16 h-16 text-primary/30" />
-                    </div>
-                    <div className="absolute top-2 right-2">
-                      <span className="px-2 py-1 bg-white/90 text-xs font-medium rounded-full capitalize">
-                        {venue.type}
+            {groupVenues ? (
+              <div className="space-y-8">
+                {groupByBuilding(filteredVenues).map(group => (
+                  <section key={group.buildingId} className="space-y-3">
+                    <div className="flex items-baseline space-x-2">
+                      <h2 className="text-lg font-semibold text-foreground">{buildingName(group.buildingId)}</h2>
+                      <span className="text-sm text-muted-foreground">
+                        {campusName(findBuilding(group.buildingId)?.campusId)} · {group.venues.length} venue{group.venues.length === 1 ? '' : 's'}
                       </span>
                     </div>
-                  </div>
-                  
-                  <CardContent className="p-6">
-                    <div className="space-y-4">
-                      <div>
-                        <h3 className="text-xl font-semibold text-foreground group-hover:text-primary transition-colors">
-                          {venue.name}
-                        </h3>
-                        <div className="flex items-center space-x-4 text-sm text-muted-foreground mt-2">
-                          <div className="flex items-center space-x-1">
-                            <MapPin className="w-4 h-4" />
-                            <span>{venue.location}</span>
-                          </div>
-                          <div className="flex items-center space-x-1">
-                            <Users className="w-4 h-4" />
-                            <span>{venue.capacity} people</span>
-                          </div>
-                        </div>
-                      </div>
-                      
-                      <div>
-                        <p className="text-sm font-medium text-foreground mb-2">Amenities:</p>
-                        <div className="flex flex-wrap gap-1">
-                          {venue.amenities.map((amenity, index) => (
-                            <span
-                              key={index}
-                              className="px-2 py-1 bg-accent/10 text-accent text-xs rounded-full"
-                            >
-                              {amenity}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                      
-                      <Button
-                        onClick={() => handleBookVenue(venue)}
-                        className="w-full"
-                        variant="venue"
-                      >
-                        <Plus className="w-4 h-4 mr-2" />
-                        Book This Venue
-                      </Button>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                      {group.venues.map(venueCard)}
                     </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+                  </section>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {filteredVenues.map(venueCard)}
+              </div>
+            )}
 
             {filteredVenues.length === 0 && (
               <Card className="venue-card">
@@ -473,9 +757,39 @@ const VenueBookingSystem = () => {
                   Manage your venue bookings and track their status
                 </CardDescription>
               </CardHeader>
+              {isApprover(user) && (
+                <CardContent>
+                  <div className="flex space-x-1 bg-secondary/50 p-1 rounded-lg w-fit">
+                    <Button
+                      size="sm"
+                      variant={showReviewQueue ? 'ghost' : 'default'}
+                      onClick={() => setShowReviewQueue(false)}
+                    >
+                      All Bookings
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={showReviewQueue ? 'default' : 'ghost'}
+                      onClick={() => setShowReviewQueue(true)}
+                    >
+                      Awaiting My Review ({reviewQueue.length})
+                    </Button>
+                  </div>
+                </CardContent>
+              )}
             </Card>
 
-            {bookings.length === 0 ? (
+            {visibleBookings.length === 0 && showReviewQueue ? (
+              <Card className="venue-card">
+                <CardContent className="text-center py-12">
+                  <CheckCircle className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold text-foreground mb-2">All caught up</h3>
+                  <p className="text-muted-foreground">
+                    There are no booking requests from your department waiting for a decision.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : visibleBookings.length === 0 ? (
               <Card className="venue-card">
                 <CardContent className="text-center py-12">
                   <Calendar className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
@@ -490,7 +804,7 @@ const VenueBookingSystem = () => {
               </Card>
             ) : (
               <div className="space-y-4">
-                {bookings.map((booking) => (
+                {visibleBookings.map((booking) => (
                   <Card key={booking.id} className="booking-card">
                     <CardContent className="p-6">
                       <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center space-y-4 lg:space-y-0">
@@ -501,18 +815,21 @@ const VenueBookingSystem = () => {
                             </h3>
                             <div className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(booking.status)}`}>
                               {getStatusIcon(booking.status)}
-                              <span className="capitalize">{booking.status}</span>
+                              <span className="capitalize">{getStatusLabel(booking)}</span>
                             </div>
                           </div>
                           
                           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                             <div className="flex items-center space-x-2">
                               <Calendar className="w-4 h-4 text-muted-foreground" />
-                              <span>{new Date(booking.date).toLocaleDateString()}</span>
+                              <span>{formatDateRange(booking.date, booking.endDate)}</span>
                             </div>
                             <div className="flex items-center space-x-2">
                               <Clock className="w-4 h-4 text-muted-foreground" />
-                              <span>{booking.timeSlot}</span>
+                              <span>{formatTimeRange(booking.startTime, booking.endTime)}</span>
+                              {formatBuffers(booking.buffers) && (
+                                <span className="text-xs text-muted-foreground">(+{formatBuffers(booking.buffers)})</span>
+                              )}
                             </div>
                             <div className="flex items-center space-x-2">
                               <Users className="w-4 h-4 text-muted-foreground" />
@@ -525,23 +842,61 @@ const VenueBookingSystem = () => {
                               <span className="font-medium">Purpose:</span> {booking.purpose}
                             </p>
                             <p className="text-sm">
-                              <span className="font-medium">Department:</span> {booking.department}
+                              <span className="font-medium">Department:</span> {departmentName(booking.department)}
                             </p>
+                            {booking.escalation && (
+                              <p className="text-sm flex items-center space-x-1 text-primary">
+                                <ArrowUpRight className="w-4 h-4" />
+                                <span>
+                                  Escalated to the {departmentName(booking.escalation.toDepartment)} HOD by {booking.escalation.escalatedBy}
+                                </span>
+                              </p>
+                            )}
                             {booking.requirements && (
                               <p className="text-sm">
                                 <span className="font-medium">Requirements:</span> {booking.requirements}
                               </p>
                             )}
+                            {booking.cancellation && (
+                              <p className="text-sm text-muted-foreground">
+                                Cancelled by {booking.cancellation.cancelledBy} on {new Date(booking.cancellation.cancelledAt).toLocaleString()}: {booking.cancellation.reason}
+                              </p>
+                            )}
+                            {booking.seriesId && (
+                              <p className="text-sm text-muted-foreground">Moved out of a repeating booking.</p>
+                            )}
+                            <HoldCountdown booking={booking} canConfirm={booking.bookedBy === user?.username} />
+                            <BookingOccurrences
+                              booking={booking}
+                              bookings={bookings}
+                              venue={venueFor(booking.venueId)}
+                              schedule={schedule}
+                              canChange={canCancel(user, booking) && canEditStatus(booking)}
+                            />
+                            <ApprovalProgress booking={booking} />
+                            <BookingHistory booking={booking} />
+                            <BookingComments booking={booking} canComment={canComment(user, booking)} />
                           </div>
                         </div>
                         
                         <div className="flex flex-col space-y-2">
-                          {user?.userType === 'hod' && booking.status === 'pending' && (
+                          {canEscalate(user, booking, venueFor(booking.venueId)) && booking.status === 'pending' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => escalateBooking(booking.id)}
+                            >
+                              <ArrowUpRight className="w-4 h-4 mr-1" />
+                              Escalate to {departmentName(venueFor(booking.venueId)?.department)} HOD
+                            </Button>
+                          )}
+
+                          {canApprove(user, booking, venueFor(booking.venueId)) && booking.status === 'pending' && (
                             <div className="flex space-x-2">
                               <Button
                                 size="sm"
                                 variant="default"
-                                onClick={() => updateBookingStatus(booking.id, 'approved')}
+                                onClick={() => setPendingDecision({ booking, status: 'approved' })}
                                 className="bg-green-600 hover:bg-green-700"
                               >
                                 <CheckCircle className="w-4 h-4 mr-1" />
@@ -550,7 +905,7 @@ const VenueBookingSystem = () => {
                               <Button
                                 size="sm"
                                 variant="destructive"
-                                onClick={() => updateBookingStatus(booking.id, 'rejected')}
+                                onClick={() => setPendingDecision({ booking, status: 'rejected' })}
                               >
                                 <XCircle className="w-4 h-4 mr-1" />
                                 Reject
@@ -558,15 +913,38 @@ const VenueBookingSystem = () => {
                             </div>
                           )}
                           
-                          {(booking.bookedBy === user?.username || user?.userType === 'hod') && (
+                          {canCancel(user, booking) && canEditStatus(booking) && (
                             <Button
                               size="sm"
                               variant="outline"
-                              onClick={() => deleteBooking(booking.id)}
+                              onClick={() => handleEditBooking(booking)}
+                            >
+                              <Edit className="w-4 h-4 mr-1" />
+                              Edit
+                            </Button>
+                          )}
+
+                          {canCancel(user, booking) && canCancelStatus(booking) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setPendingCancellation(booking)}
                               className="text-destructive hover:text-destructive"
                             >
-                              <Trash2 className="w-4 h-4 mr-1" />
-                              Delete
+                              <Ban className="w-4 h-4 mr-1" />
+                              Cancel
+                            </Button>
+                          )}
+
+                          {canCancel(user, booking) && booking.status === 'cancelled' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => undoCancellation(booking.id)}
+                              disabled={restoreBooking.isPending}
+                            >
+                              <RotateCcw className="w-4 h-4 mr-1" />
+                              Restore
                             </Button>
                           )}
                         </div>
@@ -579,80 +957,259 @@ const VenueBookingSystem = () => {
           </div>
         )}
 
+        <DecisionDialog
+          booking={pendingDecision?.booking ?? null}
+          decision={pendingDecision?.status ?? 'approved'}
+          isSubmitting={setBookingStatus.isPending}
+          onOpenChange={(open) => !open && setPendingDecision(null)}
+          onConfirm={(note) => pendingDecision && updateBookingStatus(pendingDecision.booking.id, pendingDecision.status, note)}
+        />
+
+        <CancelBookingDialog
+          booking={pendingCancellation}
+          isSubmitting={cancelBooking.isPending}
+          onOpenChange={(open) => !open && setPendingCancellation(null)}
+          onConfirm={(reason) => pendingCancellation && confirmCancellation(pendingCancellation.id, reason)}
+        />
+
         {/* Booking Dialog */}
-        <Dialog open={isBookingDialogOpen} onOpenChange={setIsBookingDialogOpen}>
+        <Dialog open={isBookingDialogOpen} onOpenChange={(open) => (open ? setIsBookingDialogOpen(true) : closeBookingDialog())}>
           <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="flex items-center space-x-2">
                 <Building2 className="w-5 h-5" />
-                <span>Book {selectedVenue?.name}</span>
+                <span>{editingBooking ? `Edit ${editingBooking.purpose}` : `Book ${selectedVenue?.name}`}</span>
               </DialogTitle>
               <DialogDescription>
-                Fill in the details below to book this venue for your event.
+                {editingBooking
+                  ? 'Change the venue, dates, times or details. A new venue or time, a different department or more attendees needs approving again.'
+                  : 'Fill in the details below to book this venue for your event.'}
               </DialogDescription>
             </DialogHeader>
 
             {selectedVenue && (
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmitBooking)} className="space-y-6">
+                  <div className="rounded-lg overflow-hidden">
+                    <VenueGallery venue={selectedVenue} className="h-64" />
+                  </div>
+
                   {/* Venue Info */}
                   <div className="bg-secondary/30 p-4 rounded-lg">
                     <h4 className="font-medium text-foreground mb-2">{selectedVenue.name}</h4>
                     <div className="grid grid-cols-2 gap-4 text-sm text-muted-foreground">
                       <div className="flex items-center space-x-2">
                         <MapPin className="w-4 h-4" />
-                        <span>{selectedVenue.location}</span>
+                        <span>{formatLocation(selectedVenue.location)}</span>
                       </div>
                       <div className="flex items-center space-x-2">
                         <Users className="w-4 h-4" />
                         <span>Capacity: {selectedVenue.capacity}</span>
                       </div>
                     </div>
+                    <p className="text-xs text-muted-foreground mt-2">{describeBookingRule(BOOKING_RULES[selectedVenue.type])}</p>
                   </div>
 
+                  {editingBooking && (
+                    <div className="space-y-1">
+                      <Label>Venue</Label>
+                      <Select value={selectedVenue.id} onValueChange={handleChangeVenue}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {venues.filter(venue => venue.status === 'active' || venue.id === editingBooking.venueId).map(venue => (
+                            <SelectItem key={venue.id} value={venue.id}>
+                              {venue.name} ({venue.capacity})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
                   {/* Date Selection */}
-                  <div className="space-y-2">
-                    <Label htmlFor="booking-date">Select Date</Label>
-                    <Input
-                      id="booking-date"
-                      type="date"
-                      value={selectedDate}
-                      onChange={(e) => setSelectedDate(e.target.value)}
-                      min={new Date().toISOString().split('T')[0]}
-                      required
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="date"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Select Date</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="date"
+                              {...field}
+                              onChange={(e) => {
+                                selectDates(e.target.value, selectedEndDate);
+                                setSkippedDates([]);
+                              }}
+                              min={earliestDate}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="endDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Last Day (multi-day events)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="date"
+                              {...field}
+                              onChange={(e) => selectDates(selectedDate, e.target.value)}
+                              min={selectedDate || earliestDate}
+                              max={selectedDate ? addDays(selectedDate, SCHEDULING.maxEventDays - 1) : undefined}
+                              disabled={!selectedDate}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
                     />
                   </div>
 
-                  {/* Time Slot Selection */}
+                  {/* Time Range Selection */}
                   {selectedDate && (
                     <div className="space-y-2">
-                      <Label>Select Time Slot</Label>
-                      <div className="grid grid-cols-3 gap-2">
-                        {timeSlots.map((slot) => {
-                          const isBooked = isTimeSlotBooked(selectedVenue.id, selectedDate, slot);
-                          return (
-                            <button
-                              key={slot}
-                              type="button"
-                              onClick={() => !isBooked && setSelectedTimeSlot(slot)}
-                              className={`p-2 text-sm rounded-md border transition-colors ${
-                                selectedTimeSlot === slot
-                                  ? 'border-primary bg-primary text-primary-foreground'
-                                  : isBooked
-                                  ? 'border-destructive/50 bg-destructive/10 text-destructive cursor-not-allowed'
-                                  : 'border-border hover:border-primary/50 bg-background hover:bg-primary/5'
-                              }`}
-                              disabled={isBooked}
-                            >
-                              {slot}
-                              {isBooked && <div className="text-xs mt-1">Booked</div>}
-                            </button>
-                          );
-                        })}
+                      <Label>Select Time</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Bookings run in {SCHEDULING.granularityMinutes}-minute steps. Click a start time, then an end time.
+                        {selectedEndDate && selectedEndDate !== selectedDate && ' The same times are booked on every day of the event.'}
+                      </p>
+                      <FormField
+                        control={form.control}
+                        name="endTime"
+                        render={() => (
+                          <FormItem>
+                            <TimeRangePicker
+                              cells={availabilityCells(otherBookings, selectedVenue, schedule, selectedSpan)}
+                              value={selectedRange}
+                              onChange={selectRange}
+                              buffers={selectedBuffers}
+                              waitlist={joinWaitlist}
+                            />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="buffers.setupMinutes"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Setup (minutes)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  step={SCHEDULING.granularityMinutes}
+                                  {...field}
+                                  onChange={(e) => field.onChange(Number(e.target.value))}
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="buffers.teardownMinutes"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Teardown (minutes)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  step={SCHEDULING.granularityMinutes}
+                                  {...field}
+                                  onChange={(e) => field.onChange(Number(e.target.value))}
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
                       </div>
+                      {!editingBooking && (
+                        <>
+                          <FormField
+                            control={form.control}
+                            name="waitlist"
+                            render={({ field }) => (
+                              <FormItem className="flex items-center space-x-2 space-y-0">
+                                <FormControl>
+                                  <Checkbox
+                                    checked={field.value}
+                                    onCheckedChange={(checked) => {
+                                      field.onChange(checked === true);
+                                      if (checked !== true && selectedConflicts.length > 0) selectRange(null);
+                                    }}
+                                  />
+                                </FormControl>
+                                <FormLabel className="font-normal">
+                                  Join the waitlist for a taken time; you are notified if it frees up
+                                </FormLabel>
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="hold"
+                            render={({ field }) => (
+                              <FormItem className="flex items-center space-x-2 space-y-0">
+                                <FormControl>
+                                  <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                                </FormControl>
+                                <FormLabel className="font-normal">
+                                  Place a {HOLD_DURATION_HOURS}-hour tentative hold while I confirm the details
+                                </FormLabel>
+                              </FormItem>
+                            )}
+                          />
+                        </>
+                      )}
+                      {changeoverClash && (
+                        <p className="text-sm font-medium text-destructive">
+                          Setup or teardown would overlap {changeoverClash.purpose} ({formatTimeRange(changeoverClash.startTime, changeoverClash.endTime)}).
+                          Shorten them or choose another time.
+                        </p>
+                      )}
                     </div>
                   )}
 
+                  {/* Recurrence */}
+                  {selectedDate && (
+                    <div className="space-y-3">
+                      <RecurrenceFields control={form.control} minDate={selectedDate} />
+                      {recurrenceError && <p className="text-sm font-medium text-destructive">{recurrenceError}</p>}
+                      {selectedSpan.recurrence && !recurrenceError && selectedRange && (
+                        <OccurrencePreview
+                          bookings={otherBookings}
+                          venue={selectedVenue}
+                          schedule={schedule}
+                          request={{ venueId: selectedVenue.id, ...selectedSpan, ...selectedRange, buffers: selectedBuffers }}
+                          onSkip={(dates) => setSkippedDates([...skippedDates, ...dates])}
+                        />
+                      )}
+                    </div>
+                  )}
+
+                  {selectedRestrictions.length > 0 && <CalendarNotice restrictions={selectedRestrictions} />}
+
+                  {losesApprovals && (
+                    <Alert>
+                      <RotateCcw className="h-4 w-4" />
+                      <AlertTitle>Needs approving again</AlertTitle>
+                      <AlertDescription>
+                        These changes send the request back to the first approval stage; the approvals it already has are cleared.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {/* Booking Form Fields */}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <FormField
@@ -662,7 +1219,7 @@ const VenueBookingSystem = () => {
                         <FormItem>
                           <FormLabel>Purpose of Booking</FormLabel>
                           <FormControl>
-                            <Input placeholder="e.g., Department Meeting" {...field} required />
+                            <Input placeholder="e.g., Department Meeting" {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -679,10 +1236,8 @@ const VenueBookingSystem = () => {
                             <Input
                               type="number"
                               min="1"
-                              max={selectedVenue.capacity}
                               {...field}
                               onChange={(e) => field.onChange(Number(e.target.value))}
-                              required
                             />
                           </FormControl>
                           <FormMessage />
@@ -696,9 +1251,23 @@ const VenueBookingSystem = () => {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Department</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., Computer Science" {...field} required />
-                          </FormControl>
+                          <Select onValueChange={field.onChange} value={field.value} disabled={!!user?.department}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select a department" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {DEPARTMENTS.map(department => (
+                                <SelectItem key={department.id} value={department.id}>
+                                  {department.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {user?.department && (
+                            <FormDescription>Requests are made for the department you belong to.</FormDescription>
+                          )}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -711,7 +1280,7 @@ const VenueBookingSystem = () => {
                         <FormItem>
                           <FormLabel>Contact Email</FormLabel>
                           <FormControl>
-                            <Input type="email" placeholder="your.email@geeta.edu" {...field} required />
+                            <Input type="email" placeholder={`your.email@${UNIVERSITY_EMAIL_DOMAIN}`} {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -741,16 +1310,16 @@ const VenueBookingSystem = () => {
                     <Button
                       type="button"
                       variant="outline"
-                      onClick={() => setIsBookingDialogOpen(false)}
+                      onClick={closeBookingDialog}
                     >
                       Cancel
                     </Button>
                     <Button
                       type="submit"
                       variant="hero"
-                      disabled={!selectedDate || !selectedTimeSlot}
+                      disabled={!selectedDate || !selectedRange || !!recurrenceError || !!changeoverClash || calendarBlocked || createBooking.isPending || editBooking.isPending}
                     >
-                      Submit Booking Request
+                      {editingBooking ? 'Save Changes' : waitlisting ? 'Join Waitlist' : form.watch('hold') ? 'Place Hold' : 'Submit Booking Request'}
                     </Button>
                   </div>
                 </form>
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2, Wrench } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCreateClosure, useRemoveClosure } from '@/hooks/useVenueData';
+import { CLOSURE_KINDS, upcomingClosures } from '@/lib/schedule';
+import { formatDateRange, formatTimeRange } from '@/lib/time';
+import type { ClosureKind, Venue, VenueClosure } from '@/lib/types';
+
+interface VenueClosuresProps {
+  venue: Venue;
+  closures: VenueClosure[];
+}
+
+const emptyClosure = { kind: 'maintenance' as ClosureKind, reason: '', startDate: '', endDate: '', startTime: '', endTime: '' };
+
+/** Upcoming blackouts and maintenance windows for a venue, and a form to add one. */
+const VenueClosures = ({ venue, closures }: VenueClosuresProps) => {
+  const [draft, setDraft] = useState(emptyClosure);
+  const createClosure = useCreateClosure();
+  const removeClosure = useRemoveClosure();
+  const today = new Date().toISOString().split('T')[0];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createClosure.mutate({
+      venueId: venue.id,
+      kind: draft.kind,
+      reason: draft.reason,
+      startDate: draft.startDate,
+      endDate: draft.endDate || draft.startDate,
+      startTime: draft.startTime || null,
+      endTime: draft.endTime || null
+    }, {
+      onSuccess: () => setDraft(emptyClosure),
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  const handleRemove = (closureId: string) => {
+    removeClosure.mutate(closureId, {
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  const upcoming = upcomingClosures(closures, venue.id, today);
+
+  return (
+    <div className="space-y-4">
+      {upcoming.length === 0 && (
+        <p className="text-sm text-muted-foreground">No upcoming closures.</p>
+      )}
+      <ul className="space-y-2">
+        {upcoming.map(closure => (
+          <li key={closure.id} className="flex items-center justify-between rounded-md bg-secondary/40 p-3 text-sm">
+            <div className="flex items-start space-x-2">
+              <Wrench className="w-4 h-4 mt-0.5 text-muted-foreground" />
+              <div>
+                <p className="font-medium">{CLOSURE_KINDS[closure.kind]}: {closure.reason}</p>
+                <p className="text-muted-foreground">
+                  {formatDateRange(closure.startDate, closure.endDate)}
+                  {closure.startTime && closure.endTime ? `, ${formatTimeRange(closure.startTime, closure.endTime)}` : ', all day'}
+                  {' '}· added by {closure.createdBy}
+                </p>
+              </div>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-destructive hover:text-destructive"
+              onClick={() => handleRemove(closure.id)}
+              disabled={removeClosure.isPending}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleSubmit} className="space-y-3 rounded-md border p-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select value={draft.kind} onValueChange={(kind) => setDraft({ ...draft, kind: kind as ClosureKind })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CLOSURE_KINDS) as ClosureKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind}>{CLOSURE_KINDS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="closure-reason">Reason</Label>
+            <Input
+              id="closure-reason"
+              value={draft.reason}
+              onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+              placeholder="e.g., AC servicing"
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="closure-start-date">From</Label>
+            <Input
+              id="closure-start-date"
+              type="date"
+              min={today}
+              value={draft.startDate}
+              onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="closure-end-date">To (optional)</Label>
+            <Input
+              id="closure-end-date"
+              type="date"
+              min={draft.startDate || today}
+              value={draft.endDate}
+              onChange={(e) => setDraft({ ...draft, endDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="closure-start-time">Start time (blank for all day)</Label>
+            <Input
+              id="closure-start-time"
+              type="time"
+              value={draft.startTime}
+              onChange={(e) => setDraft({ ...draft, startTime: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="closure-end-time">End time</Label>
+            <Input
+              id="closure-end-time"
+              type="time"
+              value={draft.endTime}
+              onChange={(e) => setDraft({ ...draft, endTime: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={createClosure.isPending}>
+            Add Closure
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default VenueClosures;
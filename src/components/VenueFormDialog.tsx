@@ -0,0 +1,268 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCreateVenue, useUpdateVenue } from '@/hooks/useVenueData';
+import { BUILDINGS, CAMPUSES, findBuilding, floorLabel } from '@/lib/campus';
+import { DEPARTMENTS } from '@/lib/departments';
+import { CENTRALLY_MANAGED, toVenueInput, VENUE_TYPE_LABELS, venueFormSchema } from '@/lib/venue-schema';
+import type { Venue, VenueFormData, VenueType } from '@/lib/types';
+import AmenityPicker from '@/components/AmenityPicker';
+
+interface VenueFormDialogProps {
+  open: boolean;
+  /** The venue being edited; null to create one. */
+  venue: Venue | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The floor choice for venues outside a building's floors, stored as a null floor.
+const NO_FLOOR = 'none';
+
+const formValues = (venue: Venue | null): VenueFormData => ({
+  name: venue?.name ?? '',
+  type: venue?.type ?? 'classroom',
+  capacity: venue?.capacity ?? 30,
+  location: venue?.location ?? { buildingId: '', floor: 0, room: '' },
+  amenities: venue?.amenities ?? [],
+  department: venue?.department ?? CENTRALLY_MANAGED
+});
+
+/** Creates a venue, or edits one's name, type, capacity, location, amenities and owning department. */
+const VenueFormDialog = ({ open, venue, onOpenChange }: VenueFormDialogProps) => {
+  const createVenue = useCreateVenue();
+  const updateVenue = useUpdateVenue();
+  const form = useForm<VenueFormData>({
+    resolver: zodResolver(venueFormSchema),
+    defaultValues: formValues(venue)
+  });
+
+  const buildingId = form.watch('location.buildingId');
+
+  useEffect(() => {
+    if (open) form.reset(formValues(venue));
+  }, [open, venue, form]);
+
+  const onSubmit = (data: VenueFormData) => {
+    const input = toVenueInput(data);
+    const options = {
+      onSuccess: (saved: Venue) => {
+        toast.success(venue ? `Saved ${saved.name}.` : `Added ${saved.name}.`);
+        onOpenChange(false);
+      },
+      onError: (error: Error) => toast.error(error.message)
+    };
+    if (venue) {
+      updateVenue.mutate({ id: venue.id, input }, options);
+    } else {
+      createVenue.mutate(input, options);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Building2 className="w-5 h-5" />
+            <span>{venue ? `Edit ${venue.name}` : 'Add a venue'}</span>
+          </DialogTitle>
+          <DialogDescription>
+            {venue
+              ? 'Changes apply to new and existing bookings; the capacity cannot drop below an upcoming booking.'
+              : 'New venues open with the default hours and setup times for their type.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Seminar Room 2" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(VENUE_TYPE_LABELS) as VenueType[]).map(type => (
+                          <SelectItem key={type} value={type}>
+                            {VENUE_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="capacity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Capacity</FormLabel>
+                    <FormControl>
+                      <Input type="number" {...field} onChange={(e) => field.onChange(Number(e.target.value))} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="location.buildingId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Building</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CAMPUSES.map(campus => (
+                          <SelectGroup key={campus.id}>
+                            <SelectLabel>{campus.name}</SelectLabel>
+                            {BUILDINGS.filter(building => building.campusId === campus.id).map(building => (
+                              <SelectItem key={building.id} value={building.id}>
+                                {building.name}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="location.floor"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Floor</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_FLOOR ? null : Number(value))}
+                      value={field.value === null ? NO_FLOOR : String(field.value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Array.from({ length: (findBuilding(buildingId)?.floors ?? 0) + 1 }, (_, floor) => (
+                          <SelectItem key={floor} value={String(floor)}>
+                            {floorLabel(floor)}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value={NO_FLOOR}>Outdoors / none</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="location.room"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Room</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., 204" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="amenities"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amenities</FormLabel>
+                  <FormControl>
+                    <AmenityPicker value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormDescription>Give a count for amenities there can be several of, such as microphones.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="department"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Owning department</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={CENTRALLY_MANAGED}>Centrally managed</SelectItem>
+                      {DEPARTMENTS.map(department => (
+                        <SelectItem key={department.id} value={department.id}>
+                          {department.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createVenue.isPending || updateVenue.isPending}>
+                {venue ? 'Save Changes' : 'Add Venue'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VenueFormDialog;
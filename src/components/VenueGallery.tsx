@@ -0,0 +1,56 @@
+import { Building2 } from 'lucide-react';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import type { Venue } from '@/lib/types';
+import StoredImage from '@/components/StoredImage';
+
+interface VenueGalleryProps {
+  venue: Venue;
+  /** Shows the small copies, for venue cards; the booking dialog shows the full images. */
+  thumbnails?: boolean;
+  className?: string;
+}
+
+/** The venue's photos followed by its floor plan, or the building icon when it has none. */
+const VenueGallery = ({ venue, thumbnails = false, className = 'h-48' }: VenueGalleryProps) => {
+  const slides = [
+    ...venue.photos.map(photo => ({ photo, isFloorPlan: false })),
+    ...(venue.floorPlan ? [{ photo: venue.floorPlan, isFloorPlan: true }] : [])
+  ];
+
+  if (slides.length === 0) {
+    return (
+      <div className={`flex items-center justify-center bg-gradient-to-br from-primary/10 to-accent/10 ${className}`}>
+        <Building2 className="w-16 h-16 text-primary/30" />
+      </div>
+    );
+  }
+
+  return (
+    <Carousel opts={{ loop: slides.length > 1 }} className="relative">
+      <CarouselContent className="ml-0">
+        {slides.map(({ photo, isFloorPlan }) => (
+          <CarouselItem key={photo.id} className={`relative pl-0 ${className}`}>
+            <StoredImage
+              imageId={thumbnails ? photo.thumbnailId : photo.imageId}
+              alt={photo.caption || (isFloorPlan ? `${venue.name} floor plan` : venue.name)}
+              className={`h-full w-full ${isFloorPlan ? 'object-contain bg-white' : 'object-cover'}`}
+            />
+            {(isFloorPlan || photo.caption) && (
+              <span className="absolute bottom-2 left-2 px-2 py-1 bg-black/60 text-white text-xs rounded">
+                {isFloorPlan ? 'Floor plan' : photo.caption}
+              </span>
+            )}
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      {slides.length > 1 && (
+        <>
+          <CarouselPrevious type="button" className="left-2" />
+          <CarouselNext type="button" className="right-2" />
+        </>
+      )}
+    </Carousel>
+  );
+};
+
+export default VenueGallery;
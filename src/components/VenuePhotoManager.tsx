@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ImagePlus, Loader2, MapIcon, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAddVenuePhoto, useRemoveVenuePhoto } from '@/hooks/useVenueData';
+import { resizeImage } from '@/lib/image-resize';
+import { MAX_CAPTION_LENGTH, MAX_PHOTOS_PER_VENUE, PHOTO_MAX_DIMENSION, THUMBNAIL_MAX_DIMENSION } from '@/lib/venue-photos';
+import type { Venue, VenuePhoto } from '@/lib/types';
+import StoredImage from '@/components/StoredImage';
+
+interface VenuePhotoManagerProps {
+  venue: Venue | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Uploads and removes a venue's gallery photos and its floor plan; images are downscaled before upload. */
+const VenuePhotoManager = ({ venue, onOpenChange }: VenuePhotoManagerProps) => {
+  const [caption, setCaption] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const addPhoto = useAddVenuePhoto();
+  const removePhoto = useRemoveVenuePhoto();
+
+  const upload = async (files: File[], slot: 'photo' | 'floorPlan') => {
+    if (!venue || files.length === 0) return;
+    setIsProcessing(true);
+    try {
+      for (const file of files) {
+        const [src, thumbnail] = await Promise.all([
+          resizeImage(file, PHOTO_MAX_DIMENSION),
+          resizeImage(file, THUMBNAIL_MAX_DIMENSION, 0.7)
+        ]).catch(() => {
+          throw new Error(`${file.name} could not be read as an image.`);
+        });
+        await addPhoto.mutateAsync({ id: venue.id, slot, src, thumbnail, caption });
+      }
+      setCaption('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleFiles = (slot: 'photo' | 'floorPlan') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    upload(files, slot);
+  };
+
+  const handleRemove = (photo: VenuePhoto) => {
+    if (!venue) return;
+    removePhoto.mutate({ id: venue.id, photoId: photo.id }, {
+      onError: (error) => toast.error(error.message)
+    });
+  };
+
+  const tile = (photo: VenuePhoto, label: string) => (
+    <div key={photo.id} className="relative group rounded-md overflow-hidden border">
+      <StoredImage imageId={photo.thumbnailId} alt={label} className="h-24 w-full object-cover" />
+      <p className="px-2 py-1 text-xs truncate">{label}</p>
+      <Button
+        type="button"
+        size="sm"
+        variant="destructive"
+        className="absolute top-1 right-1 h-7 w-7 p-0"
+        onClick={() => handleRemove(photo)}
+        disabled={removePhoto.isPending}
+        aria-label={`Remove ${label}`}
+      >
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <Dialog open={venue !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Photos of {venue?.name}</DialogTitle>
+          <DialogDescription>
+            Up to {MAX_PHOTOS_PER_VENUE} photos, shown in order on the venue card, plus a floor plan shown last.
+          </DialogDescription>
+        </DialogHeader>
+
+        {venue && (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <Label>Gallery ({venue.photos.length}/{MAX_PHOTOS_PER_VENUE})</Label>
+              {venue.photos.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No photos yet.</p>
+              ) : (
+                <div className="grid grid-cols-3 gap-3">
+                  {venue.photos.map((photo, index) => tile(photo, photo.caption || `Photo ${index + 1}`))}
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="photo-caption">Caption (optional)</Label>
+                  <Input
+                    id="photo-caption"
+                    value={caption}
+                    maxLength={MAX_CAPTION_LENGTH}
+                    onChange={(e) => setCaption(e.target.value)}
+                    placeholder="e.g., View from the stage"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="photo-files" className="flex items-center space-x-1">
+                    <ImagePlus className="w-4 h-4" />
+                    <span>Add photos</span>
+                  </Label>
+                  <Input
+                    id="photo-files"
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp"
+                    multiple
+                    onChange={handleFiles('photo')}
+                    disabled={isProcessing || venue.photos.length >= MAX_PHOTOS_PER_VENUE}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label className="flex items-center space-x-1">
+                <MapIcon className="w-4 h-4" />
+                <span>Floor plan</span>
+              </Label>
+              {venue.floorPlan ? (
+                <div className="grid grid-cols-3 gap-3">{tile(venue.floorPlan, 'Floor plan')}</div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No floor plan yet.</p>
+              )}
+              <Input
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                onChange={handleFiles('floorPlan')}
+                disabled={isProcessing}
+                aria-label={venue.floorPlan ? 'Replace floor plan' : 'Upload floor plan'}
+              />
+            </div>
+
+            {isProcessing && (
+              <p className="flex items-center space-x-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>Processing images…</span>
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VenuePhotoManager;
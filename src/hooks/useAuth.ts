@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import type { LoginRequest } from '@/lib/api';
+import type { User } from '@/lib/types';
+
+export interface AuthContextValue {
+  isAuthenticated: boolean;
+  user: User | null;
+  isLoading: boolean;
+  login: (credentials: LoginRequest) => Promise<void>;
+  logout: () => Promise<void>;
+  /** Seconds until the idle sign-out while the warning is due, otherwise null. */
+  idleSecondsRemaining: number | null;
+  staySignedIn: () => Promise<void>;
+}
+
+/** Provided by `AuthProvider`. */
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside an AuthProvider.');
+  }
+  return context;
+};
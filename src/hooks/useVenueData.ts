@@ -0,0 +1,171 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  api,
+  type BookingUpdate,
+  type CalendarImportRequest,
+  type NewBooking,
+  type NewClosure,
+  type NewVenuePhoto,
+  type OccurrenceChange,
+  type OperatingHoursRequest,
+  type VenueInput,
+  type VenueStatusRequest
+} from '@/lib/api';
+
+export interface BookingDecision {
+  id: string;
+  status: 'approved' | 'rejected';
+  /** Conditions for an approval, or the reason for a rejection. */
+  note?: string;
+}
+
+const venuesKey = ['venues'] as const;
+const bookingsKey = ['bookings'] as const;
+const closuresKey = ['closures'] as const;
+const calendarKey = ['calendar'] as const;
+const notificationsKey = ['notifications'] as const;
+
+// How often to look for notifications raised by other people's actions.
+const NOTIFICATION_POLL_MS = 60_000;
+
+export const useVenues = () =>
+  useQuery({
+    queryKey: venuesKey,
+    queryFn: () => api.venues.list()
+  });
+
+export const useBookings = () =>
+  useQuery({
+    queryKey: bookingsKey,
+    queryFn: () => api.bookings.list()
+  });
+
+export const useClosures = () =>
+  useQuery({
+    queryKey: closuresKey,
+    queryFn: () => api.closures.list()
+  });
+
+export const useAcademicCalendar = () =>
+  useQuery({
+    queryKey: calendarKey,
+    queryFn: () => api.calendar.list()
+  });
+
+/** A stored venue photo as an <img> source; image ids never change content, so it is fetched once. */
+export const useImage = (id: string) =>
+  useQuery({
+    queryKey: ['images', id],
+    queryFn: () => api.images.get(id),
+    staleTime: Infinity
+  });
+
+export const useNotifications = () =>
+  useQuery({
+    queryKey: notificationsKey,
+    queryFn: () => api.notifications.list(),
+    refetchInterval: NOTIFICATION_POLL_MS
+  });
+
+const useInvalidatingMutation = <TVariables, TResult>(
+  queryKey: readonly string[],
+  mutationFn: (variables: TVariables) => Promise<TResult>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSettled: () => queryClient.invalidateQueries({ queryKey })
+  });
+};
+
+const useBookingMutation = <TVariables, TResult>(mutationFn: (variables: TVariables) => Promise<TResult>) =>
+  useInvalidatingMutation(bookingsKey, mutationFn);
+
+export const useCreateBooking = () =>
+  useBookingMutation((input: NewBooking) => api.bookings.create(input));
+
+export const useEditBooking = () =>
+  useBookingMutation(({ id, input }: { id: string; input: BookingUpdate }) => api.bookings.update(id, input));
+
+export const useUpdateBookingStatus = () =>
+  useBookingMutation(({ id, status, note }: BookingDecision) =>
+    status === 'approved'
+      ? api.bookings.approve(id, { conditions: note })
+      : api.bookings.reject(id, { reason: note ?? '' })
+  );
+
+export const useAddComment = () =>
+  useBookingMutation(({ id, body }: { id: string; body: string }) => api.bookings.comment(id, { body }));
+
+export const useConfirmHold = () =>
+  useBookingMutation((bookingId: string) => api.bookings.confirmHold(bookingId));
+
+export const useEscalateBooking = () =>
+  useBookingMutation((bookingId: string) => api.bookings.escalate(bookingId));
+
+export const useCancelBooking = () =>
+  useBookingMutation(({ id, reason }: { id: string; reason: string }) => api.bookings.cancel(id, { reason }));
+
+export const useRestoreBooking = () =>
+  useBookingMutation((bookingId: string) => api.bookings.restore(bookingId));
+
+export const useCancelOccurrence = () =>
+  useBookingMutation(({ id, date }: { id: string; date: string }) => api.bookings.cancelOccurrence(id, date));
+
+export const useEditOccurrence = () =>
+  useBookingMutation(({ id, date, change }: { id: string; date: string; change: OccurrenceChange }) =>
+    api.bookings.editOccurrence(id, date, change)
+  );
+
+// Renaming or retiring a venue changes how its bookings read, so both lists are refetched.
+const useVenueMutation = <TVariables, TResult>(mutationFn: (variables: TVariables) => Promise<TResult>) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: venuesKey }),
+        queryClient.invalidateQueries({ queryKey: bookingsKey })
+      ])
+  });
+};
+
+export const useCreateVenue = () =>
+  useVenueMutation((input: VenueInput) => api.venues.create(input));
+
+export const useUpdateVenue = () =>
+  useVenueMutation(({ id, input }: { id: string; input: VenueInput }) => api.venues.update(id, input));
+
+export const useSetVenueStatus = () =>
+  useVenueMutation(({ id, status }: VenueStatusRequest & { id: string }) => api.venues.setStatus(id, { status }));
+
+export const useDeleteVenue = () =>
+  useVenueMutation((venueId: string) => api.venues.remove(venueId));
+
+export const useAddVenuePhoto = () =>
+  useInvalidatingMutation(venuesKey, ({ id, ...input }: NewVenuePhoto & { id: string }) => api.venues.addPhoto(id, input));
+
+export const useRemoveVenuePhoto = () =>
+  useInvalidatingMutation(venuesKey, ({ id, photoId }: { id: string; photoId: string }) => api.venues.removePhoto(id, photoId));
+
+export const useUpdateVenueHours = () =>
+  useInvalidatingMutation(venuesKey, ({ id, ...input }: OperatingHoursRequest & { id: string }) =>
+    api.venues.updateHours(id, input)
+  );
+
+export const useCreateClosure = () =>
+  useInvalidatingMutation(closuresKey, (input: NewClosure) => api.closures.create(input));
+
+export const useRemoveClosure = () =>
+  useInvalidatingMutation(closuresKey, (closureId: string) => api.closures.remove(closureId));
+
+export const useImportCalendar = () =>
+  useInvalidatingMutation(calendarKey, (input: CalendarImportRequest) => api.calendar.import(input));
+
+export const useRemovePeriod = () =>
+  useInvalidatingMutation(calendarKey, (periodId: string) => api.calendar.remove(periodId));
+
+export const useMarkNotificationRead = () =>
+  useInvalidatingMutation(notificationsKey, (notificationId: string) => api.notifications.markRead(notificationId));
@@ -0,0 +1,72 @@
+import { isDate } from './time';
+import type { AcademicPeriod, AcademicPeriodKind, Venue, VenueType } from './types';
+
+export const PERIOD_KINDS: Record<AcademicPeriodKind, string> = {
+  semester: 'Semester',
+  midsem_exams: 'Mid-semester exams',
+  endsem_exams: 'End-semester exams',
+  vacation: 'Vacation',
+  holiday: 'Holiday'
+};
+
+export interface CalendarRule {
+  kind: AcademicPeriodKind;
+  /** Venue types the rule covers; empty for every venue. */
+  venueTypes: VenueType[];
+  /** `block` refuses the booking; `warn` lets it through with a notice. */
+  effect: 'block' | 'warn';
+  message: string;
+}
+
+/** What each kind of calendar period means for bookings. The first matching rule wins. */
+export const CALENDAR_RULES: CalendarRule[] = [
+  { kind: 'holiday', venueTypes: [], effect: 'block', message: 'The campus is closed.' },
+  {
+    kind: 'endsem_exams',
+    venueTypes: ['auditorium', 'outdoor'],
+    effect: 'block',
+    message: 'Auditoriums and outdoor venues cannot be booked during end-semester exams.'
+  },
+  { kind: 'endsem_exams', venueTypes: [], effect: 'warn', message: 'Rooms may be reassigned for invigilation.' },
+  { kind: 'midsem_exams', venueTypes: [], effect: 'warn', message: 'Expect lower attendance during exams.' },
+  { kind: 'vacation', venueTypes: [], effect: 'warn', message: 'Most students are away.' }
+];
+
+export interface CalendarRestriction {
+  period: AcademicPeriod;
+  effect: CalendarRule['effect'];
+  message: string;
+}
+
+/** The rule for each calendar period overlapping the dates, for a venue of the given type. */
+export const calendarRestrictions = (
+  venue: Pick<Venue, 'type'>,
+  periods: AcademicPeriod[],
+  dates: string[]
+): CalendarRestriction[] =>
+  periods
+    .filter(period => dates.some(date => date >= period.startDate && date <= period.endDate))
+    .flatMap(period => {
+      const rule = CALENDAR_RULES.find(candidate =>
+        candidate.kind === period.kind && (candidate.venueTypes.length === 0 || candidate.venueTypes.includes(venue.type))
+      );
+      return rule ? [{ period, effect: rule.effect, message: rule.message }] : [];
+    });
+
+/** "End-sem exams 2026 (End-semester exams): Rooms may be reassigned…" style line for a restriction. */
+export const describeRestriction = ({ period, message }: CalendarRestriction) =>
+  `${period.name} (${PERIOD_KINDS[period.kind]}): ${message}`;
+
+/** Explains why a calendar entry cannot be saved, or returns null if it can. */
+export const validatePeriod = ({ kind, name, startDate, endDate }: Omit<AcademicPeriod, 'id'>) => {
+  if (!Object.keys(PERIOD_KINDS).includes(kind)) {
+    return `"${kind}" is not a calendar entry type.`;
+  }
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Every calendar entry needs a name.';
+  }
+  if (!isDate(startDate) || !isDate(endDate) || endDate < startDate) {
+    return `${name}: dates must be YYYY-MM-DD and end on or after the start.`;
+  }
+  return null;
+};
@@ -0,0 +1,66 @@
+import type { AmenityCategory, AmenityId, Venue, VenueAmenity } from './types';
+
+export interface AmenityDefinition {
+  name: string;
+  category: AmenityCategory;
+  /** Venues record how many they have, e.g. microphones; other amenities are simply present. */
+  countable: boolean;
+  /** Free-text names venues used for the amenity before v20. */
+  aliases: string[];
+}
+
+export const AMENITY_CATEGORIES: Record<AmenityCategory, string> = {
+  av: 'Audio & visual',
+  computing: 'Computing & connectivity',
+  furniture: 'Furniture & staging',
+  environment: 'Climate & setting',
+  accessibility: 'Accessibility'
+};
+
+/** The amenities a venue can list, in the order pickers and filters show them. */
+export const AMENITIES: Record<AmenityId, AmenityDefinition> = {
+  projector: { name: 'Projector', category: 'av', countable: true, aliases: [] },
+  display: { name: 'Display screen', category: 'av', countable: true, aliases: ['TV', 'Smart Board'] },
+  'sound-system': { name: 'Sound system', category: 'av', countable: false, aliases: ['PA System'] },
+  microphone: { name: 'Microphones', category: 'av', countable: true, aliases: ['Mic', 'Mics', 'Microphone'] },
+  'video-conferencing': { name: 'Video conferencing', category: 'av', countable: false, aliases: ['VC'] },
+  computers: { name: 'Computers', category: 'computing', countable: true, aliases: ['PCs'] },
+  wifi: { name: 'WiFi', category: 'computing', countable: false, aliases: ['Wi-Fi'] },
+  'power-outlets': { name: 'Power outlets', category: 'computing', countable: true, aliases: [] },
+  whiteboard: { name: 'Whiteboard', category: 'furniture', countable: true, aliases: [] },
+  stage: { name: 'Stage', category: 'furniture', countable: false, aliases: [] },
+  seating: { name: 'Seating', category: 'furniture', countable: true, aliases: ['Chairs'] },
+  'air-conditioning': { name: 'Air conditioning', category: 'environment', countable: false, aliases: ['AC'] },
+  floodlights: { name: 'Floodlights', category: 'environment', countable: true, aliases: ['Lighting'] },
+  'open-air': { name: 'Open air', category: 'environment', countable: false, aliases: [] },
+  'wheelchair-access': { name: 'Wheelchair access', category: 'accessibility', countable: false, aliases: ['Ramp'] },
+  'hearing-loop': { name: 'Hearing loop', category: 'accessibility', countable: false, aliases: [] }
+};
+
+export const AMENITY_IDS = Object.keys(AMENITIES) as AmenityId[];
+
+export const MAX_AMENITY_QUANTITY = 999;
+
+export const amenityName = (id: AmenityId) => AMENITIES[id]?.name ?? id;
+
+/** "Microphones ×10", or just the name for amenities that are not counted. */
+export const describeAmenity = ({ id, quantity }: VenueAmenity) =>
+  AMENITIES[id]?.countable ? `${amenityName(id)} ×${quantity}` : amenityName(id);
+
+/** Catalog ids grouped under their category, keeping catalog order; categories with none are left out. */
+export const groupAmenities = (ids: AmenityId[] = AMENITY_IDS) =>
+  (Object.keys(AMENITY_CATEGORIES) as AmenityCategory[])
+    .map(category => ({ category, ids: ids.filter(id => AMENITIES[id].category === category) }))
+    .filter(group => group.ids.length > 0);
+
+/** Whether the venue has every one of the amenities. */
+export const hasAmenities = (venue: Venue, ids: AmenityId[]) =>
+  ids.every(id => venue.amenities.some(amenity => amenity.id === id));
+
+/** Maps a free-text amenity (as stored before v20) to its catalog id, if recognised. */
+export const findAmenityId = (name: string) => {
+  const normalised = name.trim().toLowerCase();
+  return AMENITY_IDS.find(id =>
+    id === normalised || [AMENITIES[id].name, ...AMENITIES[id].aliases].some(alias => alias.toLowerCase() === normalised)
+  ) ?? null;
+};
@@ -0,0 +1,86 @@
+import type { AcademicPeriod, Booking, User, UserNotification, Venue, VenueClosure } from '../types';
+import { ApiError, type BookingApi, type LoginResponse } from './types';
+
+/** Typed client for the local API server in `server/`. */
+export const createHttpClient = (baseUrl: string, getToken: () => string | null): BookingApi => {
+  const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const headers: Record<string, string> = {};
+    const token = getToken();
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new ApiError(response.status, payload?.error ?? response.statusText);
+    }
+    return payload as T;
+  };
+
+  return {
+    venues: {
+      list: () => request<Venue[]>('GET', '/venues'),
+      create: (input) => request<Venue>('POST', '/venues', input),
+      update: (id, input) => request<Venue>('POST', `/venues/${encodeURIComponent(id)}`, input),
+      setStatus: (id, input) => request<Venue>('POST', `/venues/${encodeURIComponent(id)}/status`, input),
+      remove: (id) => request<void>('DELETE', `/venues/${encodeURIComponent(id)}`),
+      addPhoto: (id, input) => request<Venue>('POST', `/venues/${encodeURIComponent(id)}/photos`, input),
+      removePhoto: (id, photoId) =>
+        request<Venue>('DELETE', `/venues/${encodeURIComponent(id)}/photos/${encodeURIComponent(photoId)}`),
+      updateHours: (id, input) => request<Venue>('POST', `/venues/${encodeURIComponent(id)}/hours`, input)
+    },
+    images: {
+      // The browser loads the image itself, with caching, from the server's URL.
+      get: async (id) => `${baseUrl}/images/${encodeURIComponent(id)}`
+    },
+    closures: {
+      list: () => request<VenueClosure[]>('GET', '/closures'),
+      create: (input) => request<VenueClosure>('POST', '/closures', input),
+      remove: (id) => request<void>('DELETE', `/closures/${encodeURIComponent(id)}`)
+    },
+    calendar: {
+      list: () => request<AcademicPeriod[]>('GET', '/calendar'),
+      import: (input) => request<AcademicPeriod[]>('POST', '/calendar', input),
+      remove: (id) => request<void>('DELETE', `/calendar/${encodeURIComponent(id)}`)
+    },
+    bookings: {
+      list: () => request<Booking[]>('GET', '/bookings'),
+      create: (input) => request<Booking>('POST', '/bookings', input),
+      update: (id, input) => request<Booking>('POST', `/bookings/${encodeURIComponent(id)}`, input),
+      approve: (id, input = {}) => request<Booking>('POST', `/bookings/${encodeURIComponent(id)}/approve`, input),
+      reject: (id, input) => request<Booking>('POST', `/bookings/${encodeURIComponent(id)}/reject`, input),
+      comment: (id, input) => request<Booking>('POST', `/bookings/${encodeURIComponent(id)}/comments`, input),
+      escalate: (id) => request<Booking>('POST', `/bookings/${encodeURIComponent(id)}/escalate`),
+      cancel: (id, input) => request<Booking>('POST', `/bookings/${encodeURIComponent(id)}/cancel`, input),
+      restore: (id) => request<Booking>('POST', `/bookings/${encodeURIComponent(id)}/restore`),
+      cancelOccurrence: (id, date) =>
+        request<Booking>('DELETE', `/bookings/${encodeURIComponent(id)}/occurrences/${encodeURIComponent(date)}`),
+      editOccurrence: (id, date, input) =>
+        request<Booking>('POST', `/bookings/${encodeURIComponent(id)}/occurrences/${encodeURIComponent(date)}`, input),
+      confirmHold: (id) => request<Booking>('POST', `/bookings/${encodeURIComponent(id)}/confirm`)
+    },
+    notifications: {
+      list: () => request<UserNotification[]>('GET', '/notifications'),
+      markRead: (id) => request<UserNotification>('POST', `/notifications/${encodeURIComponent(id)}/read`)
+    },
+    auth: {
+      login: (credentials) => request<LoginResponse>('POST', '/auth/login', credentials),
+      session: () => request<User>('GET', '/auth/session'),
+      refresh: () => request<LoginResponse>('POST', '/auth/refresh'),
+      logout: () => request<void>('POST', '/auth/logout')
+    }
+  };
+};
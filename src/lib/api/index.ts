@@ -0,0 +1,55 @@
+import { getSessionToken } from '../auth/session-token';
+import { images, repositories } from '../storage';
+import { createHttpClient } from './http-client';
+import { startHoldScheduler } from './jobs';
+import { createBookingService } from './service';
+
+export type {
+  ApproveRequest,
+  BookingApi,
+  BookingUpdate,
+  CalendarImportRequest,
+  CancelRequest,
+  CommentRequest,
+  LoginRequest,
+  LoginResponse,
+  NewBooking,
+  NewClosure,
+  NewVenuePhoto,
+  OccurrenceChange,
+  OperatingHoursRequest,
+  RejectRequest,
+  VenueInput,
+  VenueStatusRequest
+} from './types';
+export { ApiError } from './types';
+
+const apiUrl = import.meta.env.VITE_API_URL;
+
+const SECRET_KEY = 'geeta-venue-quest:session-secret';
+
+// Signing key for the in-browser service, generated once per browser profile.
+const localSessionSecret = () => {
+  let secret = localStorage.getItem(SECRET_KEY);
+  if (!secret) {
+    secret = Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(SECRET_KEY, secret);
+  }
+  return secret;
+};
+
+/**
+ * Talks to the shared API server when `VITE_API_URL` is set, otherwise keeps
+ * everything in this browser's localStorage, and uploaded images in IndexedDB.
+ */
+export const api = apiUrl
+  ? createHttpClient(apiUrl, getSessionToken)
+  : createBookingService(repositories, { getToken: getSessionToken, sessionSecret: localSessionSecret(), images });
+
+/** Only the in-browser store has the demo accounts; a server's accounts are its own. */
+export const hasDemoAccounts = !apiUrl;
+
+// Without a server, this tab releases lapsed holds itself.
+if (!apiUrl) {
+  startHoldScheduler(repositories, error => console.error('Could not release lapsed holds:', error));
+}
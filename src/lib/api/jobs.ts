@@ -0,0 +1,87 @@
+import { findConflicts, scheduleProblem } from '../availability';
+import { hasEnded } from '../bookings';
+import { HOLD_RELEASE_INTERVAL_MS, isHoldLapsed } from '../holds';
+import { formatDateRange, formatTimeRange } from '../time';
+import { waitlistAt } from '../waitlist';
+import { restartApproval } from '../workflow';
+import type { Repositories } from '../storage/repositories';
+import type { Booking, Venue } from '../types';
+
+/*
+ * Work that is not done on behalf of the signed-in user: telling people about
+ * changes to their bookings, and freeing time for others. The booking service
+ * runs these after its own changes; the hold scheduler runs them on a timer.
+ */
+
+export const notify = (repositories: Repositories, username: string, bookingId: string | null, message: string) =>
+  repositories.notifications.save({
+    id: crypto.randomUUID(),
+    username,
+    bookingId,
+    message,
+    createdAt: new Date().toISOString(),
+    read: false
+  });
+
+const describeTime = (venue: Venue, booking: Booking) =>
+  `${venue.name} on ${formatDateRange(booking.date, booking.endDate)}, ${formatTimeRange(booking.startTime, booking.endTime)}`;
+
+/**
+ * Moves waitlisted requests at the venue whose time has come free to
+ * pending, longest-waiting first, and tells their requesters. Requests whose
+ * time has already passed stay on the waitlist. Run after anything that
+ * releases time there.
+ */
+export const promoteWaitlist = async (repositories: Repositories, venueId: string) => {
+  const venue = await repositories.venues.get(venueId);
+  if (!venue) return;
+  const context = { closures: await repositories.closures.list(), calendar: await repositories.academicPeriods.list() };
+  let bookings = await repositories.bookings.list();
+
+  for (const waiting of waitlistAt(bookings, venueId)) {
+    if (hasEnded(waiting) || findConflicts(bookings, waiting, waiting.id).length > 0 || scheduleProblem(venue, context, waiting)) continue;
+
+    const promoted = await repositories.bookings.save(restartApproval({ ...waiting, waitlistedAt: null }, venue));
+    bookings = bookings.map(booking => (booking.id === promoted.id ? promoted : booking));
+    await notify(
+      repositories,
+      promoted.bookedBy,
+      promoted.id,
+      `${describeTime(venue, promoted)} has come free: your waitlisted request for "${promoted.purpose}" is now awaiting approval.`
+    );
+  }
+};
+
+/** Lapses every tentative hold past its expiry, tells the requester and offers the time to the waitlist. */
+export const releaseExpiredHolds = async (repositories: Repositories, now = new Date()) => {
+  const lapsed = (await repositories.bookings.list()).filter(booking => isHoldLapsed(booking, now));
+  for (const booking of lapsed) {
+    await repositories.bookings.save({ ...booking, status: 'expired' });
+    const venue = await repositories.venues.get(booking.venueId);
+    await notify(
+      repositories,
+      booking.bookedBy,
+      booking.id,
+      `Your hold on ${venue ? describeTime(venue, booking) : booking.venueName} for "${booking.purpose}" expired and was released.`
+    );
+  }
+  for (const venueId of new Set(lapsed.map(booking => booking.venueId))) {
+    await promoteWaitlist(repositories, venueId);
+  }
+  return lapsed.length;
+};
+
+/**
+ * Releases lapsed holds now and then every `intervalMs`, passing failures to
+ * `onError`; returns a function that stops it.
+ */
+export const startHoldScheduler = (
+  repositories: Repositories,
+  onError: (error: unknown) => void,
+  intervalMs = HOLD_RELEASE_INTERVAL_MS
+) => {
+  const run = () => releaseExpiredHolds(repositories).catch(onError);
+  run();
+  const timer = setInterval(run, intervalMs);
+  return () => clearInterval(timer);
+};
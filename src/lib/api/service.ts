@@ -0,0 +1,869 @@
+import { verifyPassword } from '../auth/passwords';
+import { validatePeriod } from '../academic-calendar';
+import {
+  canApprove,
+  canBook,
+  canComment,
+  canCancel,
+  canEscalate,
+  canManageCalendar,
+  canManageVenues,
+  isOwnRequest
+} from '../auth/permissions';
+import { LOCKOUT_MINUTES, MAX_FAILED_LOGIN_ATTEMPTS, SESSION_TTL_MINUTES } from '../auth/policy';
+import { signToken, verifyToken } from '../auth/tokens';
+import { DEFAULT_BUFFERS, findConflicts, scheduleProblem, sharedDates, validateBuffers } from '../availability';
+import { canCancelStatus, canEditStatus, diffBooking, needsReapproval, reschedules } from '../booking-changes';
+import { bookingRuleViolations } from '../booking-rules';
+import { bookingDetailsSchema } from '../booking-schema';
+import { upcomingBookings } from '../bookings';
+import { holdExpiry, isHoldLapsed } from '../holds';
+import { DEFAULT_OPERATING_HOURS, validateClosure, validateOperatingHours } from '../schedule';
+import { expandRecurrence, validateRecurrence } from '../recurrence';
+import {
+  addDays,
+  daysBetween,
+  formatDateRange,
+  formatTimeRange,
+  rangesOverlap,
+  toMinutes,
+  validateDateRange,
+  validateTimeRange
+} from '../time';
+import { departmentName } from '../departments';
+import { MAX_PHOTOS_PER_VENUE, validatePhoto } from '../venue-photos';
+import { venueSchema } from '../venue-schema';
+import { approvalChainFor, recordDecision, restartApproval } from '../workflow';
+import type { ImageStore } from '../storage/image-store';
+import type { Repositories } from '../storage/repositories';
+import type { Booking, Session, User, UserAccount, Venue, VenuePhoto } from '../types';
+import { notify, promoteWaitlist } from './jobs';
+import { ApiError, type BookingApi, type BookingUpdate, type LoginResponse, type VenueInput } from './types';
+
+export interface BookingServiceOptions {
+  /** Token presented by the caller, if any. */
+  getToken: () => string | null;
+  /** HMAC key used to sign and verify session tokens. */
+  sessionSecret: string;
+  /** Where uploaded venue photos are kept, apart from the venue records. */
+  images: ImageStore;
+}
+
+const toUser = ({ id, username, displayName, userType, department }: UserAccount): User => ({
+  id,
+  username,
+  displayName,
+  userType,
+  department
+});
+
+/** A free-text field of a request, trimmed; missing is empty and anything but text is a 400. */
+const readText = (value: unknown, label: string) => {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') {
+    throw new ApiError(400, `${label} must be text.`);
+  }
+  return value.trim();
+};
+
+/**
+ * The booking rules themselves. The browser runs this directly over
+ * localStorage; the API server runs the same code over its data file, building
+ * one service per request around that request's bearer token.
+ */
+export const createBookingService = (
+  repositories: Repositories,
+  { getToken, sessionSecret, images }: BookingServiceOptions
+): BookingApi => {
+  const currentSession = async () => {
+    const token = getToken();
+    const claims = token ? await verifyToken(token, sessionSecret) : null;
+    const session = claims ? await repositories.sessions.get(claims.sid) : undefined;
+    const account = session && session.userId === claims.sub ? await repositories.users.get(session.userId) : undefined;
+
+    if (!account || new Date(session.expiresAt) <= new Date()) {
+      throw new ApiError(401, 'Your session has ended. Please sign in again.');
+    }
+    return { session, account };
+  };
+
+  const currentUser = async (): Promise<User> => toUser((await currentSession()).account);
+
+  const issueToken = async (session: Session, account: UserAccount): Promise<LoginResponse> => {
+    const expiresAt = Date.now() + SESSION_TTL_MINUTES * 60_000;
+    await repositories.sessions.save({ ...session, expiresAt: new Date(expiresAt).toISOString() });
+
+    const token = await signToken({ sid: session.id, sub: account.id, iat: Date.now(), exp: expiresAt }, sessionSecret);
+    return { token, user: toUser(account), expiresAt: new Date(expiresAt).toISOString() };
+  };
+
+  const pruneExpiredSessions = async () => {
+    const now = new Date();
+    const sessions = await repositories.sessions.list();
+    await Promise.all(
+      sessions
+        .filter(session => new Date(session.expiresAt) <= now)
+        .map(session => repositories.sessions.remove(session.id))
+    );
+  };
+
+  const findBooking = async (id: string) => {
+    const booking = await repositories.bookings.get(id);
+    if (!booking) {
+      throw new ApiError(404, `Booking ${id} does not exist.`);
+    }
+    return booking;
+  };
+
+  const findVenue = async (id: string) => {
+    const venue = await repositories.venues.get(id);
+    if (!venue) {
+      throw new ApiError(404, `Venue ${id} does not exist.`);
+    }
+    return venue;
+  };
+
+  const photosOf = (venue: Venue) => [...venue.photos, ...(venue.floorPlan ? [venue.floorPlan] : [])];
+
+  const removeImages = (photo: VenuePhoto) => Promise.all([images.remove(photo.imageId), images.remove(photo.thumbnailId)]);
+
+  /** The venue details in a create or update, rejected with 400 if invalid or 409 if another venue has the name. */
+  const parseVenue = async (input: VenueInput, id?: string) => {
+    const details = venueSchema.safeParse(input);
+    if (!details.success) {
+      throw new ApiError(400, details.error.issues[0].message);
+    }
+    const { name, type, capacity, location, amenities, department } = details.data;
+    const venues = await repositories.venues.list();
+    if (venues.some(venue => venue.id !== id && venue.name.toLowerCase() === name.toLowerCase())) {
+      throw new ApiError(409, `There is already a venue called ${name}.`);
+    }
+    return {
+      name,
+      type,
+      capacity,
+      location: { buildingId: location.buildingId, floor: location.floor, room: location.room },
+      amenities: amenities.map(({ id, quantity }) => ({ id, quantity })),
+      department
+    };
+  };
+
+  /** Rejects retiring the venue with 409 while bookings still hold or wait for time there. */
+  const assertNoUpcomingBookings = async (venue: Venue, action: string) => {
+    const upcoming = upcomingBookings(await repositories.bookings.list(), venue.id);
+    if (upcoming.length > 0) {
+      throw new ApiError(
+        409,
+        `${venue.name} has ${upcoming.length} upcoming booking${upcoming.length === 1 ? '' : 's'}; cancel or move ${upcoming.length === 1 ? 'it' : 'them'} before you ${action} the venue.`
+      );
+    }
+  };
+
+  /** Rejects new bookings with 409 at venues that are deactivated or archived. */
+  const assertTakingBookings = (venue: Venue) => {
+    if (venue.status !== 'active') {
+      throw new ApiError(409, `${venue.name} is not taking bookings.`);
+    }
+  };
+
+  const findPendingBooking = async (id: string) => {
+    const booking = await findBooking(id);
+    if (booking.status !== 'pending') {
+      throw new ApiError(409, `Booking ${id} has already been ${booking.status}.`);
+    }
+    return { booking, venue: await repositories.venues.get(booking.venueId) };
+  };
+
+  /** `after` with the tracked fields changed since `before` added to its history. */
+  const withChange = (before: Booking, after: Booking, changedBy: string, reapproval: boolean): Booking => ({
+    ...after,
+    history: [
+      ...before.history,
+      { id: crypto.randomUUID(), changedBy, changedAt: new Date().toISOString(), changes: diffBooking(before, after), reapproval }
+    ]
+  });
+
+  /** A series the user may change, checked to include an occurrence starting on `date`. */
+  const findSeriesOccurrence = async (id: string, date: string) => {
+    const user = await currentUser();
+    const booking = await findBooking(id);
+    if (!canCancel(user, booking)) {
+      throw new ApiError(403, 'You are not allowed to change this booking.');
+    }
+    if (!canEditStatus(booking)) {
+      throw new ApiError(409, `Booking ${id} is ${booking.status} and can no longer be changed.`);
+    }
+    if (!booking.recurrence) {
+      throw new ApiError(400, `Booking ${id} does not repeat.`);
+    }
+    const remaining = expandRecurrence(booking.date, booking.recurrence).filter(start => start !== date);
+    if (remaining.length === expandRecurrence(booking.date, booking.recurrence).length) {
+      throw new ApiError(404, `Booking ${id} has no occurrence on ${date}.`);
+    }
+    if (remaining.length === 0) {
+      throw new ApiError(409, 'This is the only remaining occurrence; change or delete the whole booking instead.');
+    }
+    const skipped = { ...booking, recurrence: { ...booking.recurrence, exceptions: [...booking.recurrence.exceptions, date] } };
+    return {
+      user,
+      booking,
+      venue: await repositories.venues.get(booking.venueId),
+      withoutOccurrence: withChange(booking, skipped, user.username, false)
+    };
+  };
+
+  /**
+   * Rejects the booking with 400 if it breaks the venue type's lead time,
+   * horizon, duration or weekly limit. `others` is every other booking.
+   */
+  const assertWithinRules = async (venue: Venue, others: Booking[], booking: Booking) => {
+    const venues = await repositories.venues.list();
+    const sameType = new Set(venues.filter(candidate => candidate.type === venue.type).map(candidate => candidate.id));
+    const ownBookings = others.filter(other => other.bookedBy === booking.bookedBy && sameType.has(other.venueId));
+    const [violation] = bookingRuleViolations(venue.type, booking, ownBookings);
+    if (violation) {
+      throw new ApiError(400, violation.message);
+    }
+  };
+
+  /**
+   * The venue and booking details a create or update request asks for,
+   * rejecting it with 404 or 400 if the venue is unknown or a detail is invalid,
+   * and with 403 if a user who belongs to a department names another one.
+   */
+  const parseRequest = async (user: User, input: BookingUpdate) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      throw new ApiError(400, 'Send the booking details as an object.');
+    }
+    if (!input.venueId) {
+      throw new ApiError(400, 'Choose a venue to book.');
+    }
+    const venue = await findVenue(input.venueId);
+
+    const details = bookingDetailsSchema(venue.capacity).safeParse(input);
+    if (!details.success) {
+      throw new ApiError(400, details.error.issues[0].message);
+    }
+
+    const endDate = input.endDate || input.date;
+    const recurrence = input.recurrence ? { ...input.recurrence, exceptions: input.recurrence.exceptions ?? [] } : null;
+    const buffers = input.buffers ?? venue.buffers;
+    const timeError =
+      validateDateRange(input.date, endDate) ??
+      validateTimeRange(input.startTime, input.endTime) ??
+      validateBuffers(buffers) ??
+      (recurrence && validateRecurrence(input.date, endDate, recurrence));
+    if (timeError) {
+      throw new ApiError(400, timeError);
+    }
+
+    const { purpose, attendees, requirements, contactEmail, department } = details.data;
+    // The department decides which HOD approves, so it is not the requester's to pick.
+    if (user.department && department !== user.department) {
+      throw new ApiError(403, `You can only make requests for ${departmentName(user.department)}.`);
+    }
+    return {
+      venue,
+      fields: {
+        purpose,
+        attendees,
+        requirements,
+        contactEmail,
+        department,
+        venueId: venue.id,
+        venueName: venue.name,
+        date: input.date,
+        endDate,
+        startTime: input.startTime,
+        endTime: input.endTime,
+        buffers,
+        recurrence
+      }
+    };
+  };
+
+  const scheduleContext = async () => ({
+    closures: await repositories.closures.list(),
+    calendar: await repositories.academicPeriods.list()
+  });
+
+  /** Rejects the change with 409 if the venue is closed for any of the booking's days. */
+  const assertOpen = async (venue: Venue, booking: Booking) => {
+    const closed = scheduleProblem(venue, await scheduleContext(), booking);
+    if (closed) {
+      throw new ApiError(409, closed);
+    }
+  };
+
+  /**
+   * Rejects the change with 409 if the venue is closed for any of the
+   * booking's days, or if it would clash with anything else at the venue.
+   */
+  const assertNoConflict = async (venue: Venue, others: Booking[], booking: Booking) => {
+    await assertOpen(venue, booking);
+
+    const [conflict] = findConflicts(others, booking, booking.id);
+    if (conflict) {
+      const [clash] = sharedDates(booking, conflict);
+      const when = `${clash} from ${formatTimeRange(conflict.startTime, conflict.endTime)}`;
+      const overlaps = rangesOverlap(
+        toMinutes(booking.startTime),
+        toMinutes(booking.endTime),
+        toMinutes(conflict.startTime),
+        toMinutes(conflict.endTime)
+      );
+      throw new ApiError(
+        409,
+        overlaps
+          ? `${venue.name} is already booked on ${when}.`
+          : `${venue.name} is booked on ${when}, which leaves too little time for setup and teardown.`
+      );
+    }
+  };
+
+  /** Records the user's decision on the current stage; a rejection has to give its reason as the note. */
+  const decide = async (id: string, decision: 'approved' | 'rejected', note: unknown) => {
+    const user = await currentUser();
+    const { booking, venue } = await findPendingBooking(id);
+    if (isOwnRequest(user, booking)) {
+      throw new ApiError(403, 'You cannot review your own booking request.');
+    }
+    if (canEscalate(user, booking, venue)) {
+      throw new ApiError(409, `${venue.name} belongs to ${departmentName(venue.department)}; escalate the request to its HOD instead.`);
+    }
+    if (!canApprove(user, booking, venue)) {
+      throw new ApiError(403, 'You are not allowed to review this booking request.');
+    }
+    const text = readText(note, decision === 'approved' ? 'Conditions' : 'The reason');
+    if (decision === 'rejected' && !text) {
+      throw new ApiError(400, 'Give a reason so the requester knows why the booking was rejected.');
+    }
+    const decided = await repositories.bookings.save(recordDecision(booking, decision, user.username, text || null));
+    if (decided.status === 'rejected') {
+      await promoteWaitlist(repositories, decided.venueId);
+    }
+    return decided;
+  };
+
+  const recordFailedLogin = async (account: UserAccount) => {
+    const attempts = account.failedLoginAttempts + 1;
+    const locked = attempts >= MAX_FAILED_LOGIN_ATTEMPTS;
+    await repositories.users.save({
+      ...account,
+      failedLoginAttempts: locked ? 0 : attempts,
+      lockedUntil: locked ? new Date(Date.now() + LOCKOUT_MINUTES * 60_000).toISOString() : null
+    });
+    return locked;
+  };
+
+  const currentVenueManager = async () => {
+    const user = await currentUser();
+    if (!canManageVenues(user)) {
+      throw new ApiError(403, 'Only facilities staff can manage venues.');
+    }
+    return user;
+  };
+
+  const currentRegistrar = async () => {
+    const user = await currentUser();
+    if (!canManageCalendar(user)) {
+      throw new ApiError(403, 'Only the registrar can change the academic calendar.');
+    }
+    return user;
+  };
+
+  return {
+    venues: {
+      list: async () => {
+        await currentUser();
+        return repositories.venues.list();
+      },
+      create: async (input) => {
+        await currentVenueManager();
+        const details = await parseVenue(input);
+        return repositories.venues.save({
+          ...details,
+          id: crypto.randomUUID(),
+          status: 'active',
+          photos: [],
+          floorPlan: null,
+          approvalChain: null,
+          buffers: DEFAULT_BUFFERS[details.type],
+          operatingHours: DEFAULT_OPERATING_HOURS
+        });
+      },
+      update: async (id, input) => {
+        await currentVenueManager();
+        const venue = await findVenue(id);
+        const details = await parseVenue(input, id);
+
+        const bookings = await repositories.bookings.list();
+        const largest = Math.max(0, ...upcomingBookings(bookings, id).map(booking => booking.attendees));
+        if (details.capacity < largest) {
+          throw new ApiError(409, `${venue.name} has an upcoming booking for ${largest} people; the capacity cannot go below that.`);
+        }
+
+        const saved = await repositories.venues.save({ ...venue, ...details });
+        if (saved.name !== venue.name) {
+          await Promise.all(
+            bookings
+              .filter(booking => booking.venueId === id)
+              .map(booking => repositories.bookings.save({ ...booking, venueName: saved.name }))
+          );
+        }
+        return saved;
+      },
+      setStatus: async (id, { status }) => {
+        await currentVenueManager();
+        const venue = await findVenue(id);
+        if (!['active', 'inactive', 'archived'].includes(status)) {
+          throw new ApiError(400, 'Choose whether the venue is active, inactive or archived.');
+        }
+        if (status === 'archived') {
+          await assertNoUpcomingBookings(venue, 'archive');
+        }
+        return repositories.venues.save({ ...venue, status });
+      },
+      remove: async (id) => {
+        await currentVenueManager();
+        const venue = await findVenue(id);
+        await assertNoUpcomingBookings(venue, 'delete');
+        const closures = await repositories.closures.list();
+        await Promise.all(closures.filter(closure => closure.venueId === id).map(closure => repositories.closures.remove(closure.id)));
+        await repositories.venues.remove(id);
+        await Promise.all(photosOf(venue).map(removeImages));
+      },
+      addPhoto: async (id, { slot, src, thumbnail, caption }) => {
+        const user = await currentVenueManager();
+        const venue = await findVenue(id);
+        const text = readText(caption, 'The caption');
+        const error = validatePhoto({ src, thumbnail, caption: text });
+        if (error) {
+          throw new ApiError(400, error);
+        }
+        if (slot !== 'floorPlan' && venue.photos.length >= MAX_PHOTOS_PER_VENUE) {
+          throw new ApiError(409, `A venue can have at most ${MAX_PHOTOS_PER_VENUE} photos; remove one first.`);
+        }
+
+        const photo = {
+          id: crypto.randomUUID(),
+          imageId: crypto.randomUUID(),
+          thumbnailId: crypto.randomUUID(),
+          caption: text,
+          uploadedBy: user.username,
+          uploadedAt: new Date().toISOString()
+        };
+        await images.put(photo.imageId, src);
+        await images.put(photo.thumbnailId, thumbnail);
+        const saved = await repositories.venues.save(
+          slot === 'floorPlan' ? { ...venue, floorPlan: photo } : { ...venue, photos: [...venue.photos, photo] }
+        );
+        if (slot === 'floorPlan' && venue.floorPlan) {
+          await removeImages(venue.floorPlan);
+        }
+        return saved;
+      },
+      removePhoto: async (id, photoId) => {
+        await currentVenueManager();
+        const venue = await findVenue(id);
+        const removed = photosOf(venue).find(photo => photo.id === photoId);
+        if (!removed) {
+          throw new ApiError(404, `Venue ${id} has no photo ${photoId}.`);
+        }
+        const saved = await repositories.venues.save({
+          ...venue,
+          photos: venue.photos.filter(photo => photo.id !== photoId),
+          floorPlan: venue.floorPlan?.id === photoId ? null : venue.floorPlan
+        });
+        await removeImages(removed);
+        return saved;
+      },
+      updateHours: async (id, { operatingHours }) => {
+        await currentVenueManager();
+        const venue = await findVenue(id);
+        const error = validateOperatingHours(operatingHours);
+        if (error) {
+          throw new ApiError(400, error);
+        }
+        return repositories.venues.save({ ...venue, operatingHours });
+      }
+    },
+    images: {
+      get: async (id) => {
+        const image = await images.get(id);
+        if (!image) {
+          throw new ApiError(404, `Image ${id} does not exist.`);
+        }
+        return image;
+      }
+    },
+    closures: {
+      list: async () => {
+        await currentUser();
+        return repositories.closures.list();
+      },
+      create: async ({ venueId, kind, reason, startDate, endDate, startTime, endTime }) => {
+        const user = await currentVenueManager();
+        await findVenue(venueId);
+        const closure = {
+          venueId,
+          kind,
+          reason: readText(reason, 'The reason'),
+          startDate,
+          endDate,
+          startTime: startTime || null,
+          endTime: endTime || null
+        };
+        const error = validateClosure(closure);
+        if (error) {
+          throw new ApiError(400, error);
+        }
+        return repositories.closures.save({
+          ...closure,
+          id: crypto.randomUUID(),
+          createdBy: user.username,
+          createdAt: new Date().toISOString()
+        });
+      },
+      remove: async (id) => {
+        await currentVenueManager();
+        await repositories.closures.remove(id);
+      }
+    },
+    calendar: {
+      list: async () => {
+        await currentUser();
+        return repositories.academicPeriods.list();
+      },
+      import: async ({ periods, replace }) => {
+        await currentRegistrar();
+        if (!Array.isArray(periods) || periods.length === 0) {
+          throw new ApiError(400, 'The import has no calendar entries.');
+        }
+        if (periods.some(period => typeof period !== 'object' || period === null || Array.isArray(period))) {
+          throw new ApiError(400, 'Every calendar entry must be an object.');
+        }
+        const entries = periods.map(({ kind, name, startDate, endDate }) => ({
+          kind,
+          name: typeof name === 'string' ? name.trim() : name,
+          startDate,
+          endDate
+        }));
+        const error = entries.map(validatePeriod).find(Boolean);
+        if (error) {
+          throw new ApiError(400, error);
+        }
+
+        if (replace) {
+          const existing = await repositories.academicPeriods.list();
+          await Promise.all(existing.map(period => repositories.academicPeriods.remove(period.id)));
+        }
+        for (const entry of entries) {
+          await repositories.academicPeriods.save({ ...entry, id: crypto.randomUUID() });
+        }
+        return repositories.academicPeriods.list();
+      },
+      remove: async (id) => {
+        await currentRegistrar();
+        await repositories.academicPeriods.remove(id);
+      }
+    },
+    bookings: {
+      list: async () => {
+        await currentUser();
+        return repositories.bookings.list();
+      },
+      create: async (input) => {
+        const user = await currentUser();
+        if (!canBook(user)) {
+          throw new ApiError(403, 'Your role cannot make venue bookings.');
+        }
+
+        const { venue, fields } = await parseRequest(user, input);
+        assertTakingBookings(venue);
+        const { waitlist, hold } = input;
+        const booking: Booking = {
+          ...fields,
+          id: crypto.randomUUID(),
+          bookedBy: user.username,
+          status: 'pending',
+          escalation: null,
+          approvalChain: approvalChainFor(venue),
+          approvals: [],
+          comments: [],
+          seriesId: null,
+          waitlistedAt: null,
+          heldUntil: null,
+          history: [],
+          cancellation: null
+        };
+
+        // Every day of every occurrence is checked before anything is saved, so
+        // a multi-day or repeating request is booked whole or not at all.
+        const others = await repositories.bookings.list();
+        await assertWithinRules(venue, others, booking);
+        if (waitlist && findConflicts(others, booking).length > 0) {
+          await assertOpen(venue, booking);
+          return repositories.bookings.save({ ...booking, status: 'waitlisted', waitlistedAt: new Date().toISOString() });
+        }
+        await assertNoConflict(venue, others, booking);
+        return repositories.bookings.save(hold ? { ...booking, status: 'held', heldUntil: holdExpiry() } : booking);
+      },
+      update: async (id, input) => {
+        const user = await currentUser();
+        const booking = await findBooking(id);
+        if (!canCancel(user, booking)) {
+          throw new ApiError(403, 'You are not allowed to change this booking.');
+        }
+        if (!canEditStatus(booking)) {
+          throw new ApiError(409, `Booking ${id} is ${booking.status} and can no longer be changed.`);
+        }
+
+        const { venue, fields } = await parseRequest(user, input);
+        if (venue.id !== booking.venueId) {
+          assertTakingBookings(venue);
+        }
+        const edited: Booking = { ...booking, ...fields };
+        const changes = diffBooking(booking, edited);
+        if (changes.length === 0) {
+          return booking;
+        }
+
+        // Unchanged times are left alone, even if they are now inside the lead time.
+        if (reschedules(changes)) {
+          const others = (await repositories.bookings.list()).filter(other => other.id !== booking.id);
+          await assertWithinRules(venue, others, edited);
+          await assertNoConflict(venue, others, edited);
+        }
+
+        // A hold is approved from scratch once it is confirmed anyway.
+        const reapproval = booking.status !== 'held' && needsReapproval(booking, edited);
+        const saved = await repositories.bookings.save(
+          withChange(booking, reapproval ? restartApproval(edited, venue) : edited, user.username, reapproval)
+        );
+        if (reschedules(changes)) {
+          await promoteWaitlist(repositories, booking.venueId);
+        }
+        return saved;
+      },
+      approve: (id, input) => decide(id, 'approved', input?.conditions),
+      reject: (id, input) => decide(id, 'rejected', input?.reason),
+      comment: async (id, { body }) => {
+        const user = await currentUser();
+        const booking = await findBooking(id);
+        if (!canComment(user, booking)) {
+          throw new ApiError(403, 'You cannot comment on this booking.');
+        }
+        const text = readText(body, 'The comment');
+        if (!text) {
+          throw new ApiError(400, 'Comments cannot be empty.');
+        }
+        return repositories.bookings.save({
+          ...booking,
+          comments: [
+            ...booking.comments,
+            { id: crypto.randomUUID(), author: user.username, body: text, createdAt: new Date().toISOString() }
+          ]
+        });
+      },
+      escalate: async (id) => {
+        const user = await currentUser();
+        const { booking, venue } = await findPendingBooking(id);
+        if (!canEscalate(user, booking, venue)) {
+          throw new ApiError(403, 'This request does not need to be escalated by you.');
+        }
+        return repositories.bookings.save({
+          ...booking,
+          escalation: {
+            fromDepartment: booking.department,
+            toDepartment: venue.department,
+            escalatedBy: user.username,
+            escalatedAt: new Date().toISOString()
+          }
+        });
+      },
+      cancel: async (id, { reason }) => {
+        const user = await currentUser();
+        const booking = await findBooking(id);
+        if (!canCancel(user, booking)) {
+          throw new ApiError(403, 'You are not allowed to cancel this booking.');
+        }
+        if (!canCancelStatus(booking)) {
+          throw new ApiError(409, `Booking ${id} has already been ${booking.status}.`);
+        }
+        const text = readText(reason, 'The reason');
+        if (!text) {
+          throw new ApiError(400, 'Give a reason for cancelling the booking.');
+        }
+
+        const cancelled = await repositories.bookings.save({
+          ...booking,
+          status: 'cancelled',
+          cancellation: {
+            cancelledBy: user.username,
+            cancelledAt: new Date().toISOString(),
+            reason: text,
+            previousStatus: booking.status
+          }
+        });
+        if (booking.bookedBy !== user.username) {
+          await notify(
+            repositories,
+            booking.bookedBy,
+            booking.id,
+            `${user.username} cancelled your booking of ${booking.venueName} for "${booking.purpose}": ${text}`
+          );
+        }
+        await promoteWaitlist(repositories, booking.venueId);
+        return cancelled;
+      },
+      restore: async (id) => {
+        const user = await currentUser();
+        const booking = await findBooking(id);
+        if (!canCancel(user, booking)) {
+          throw new ApiError(403, 'You are not allowed to change this booking.');
+        }
+        if (booking.status !== 'cancelled' || !booking.cancellation) {
+          throw new ApiError(409, `Booking ${id} is not cancelled.`);
+        }
+
+        const restored: Booking = { ...booking, status: booking.cancellation.previousStatus, cancellation: null };
+        // The waitlist may have been given the time in the meantime.
+        if (restored.status !== 'waitlisted') {
+          const venue = await repositories.venues.get(booking.venueId);
+          const others = (await repositories.bookings.list()).filter(other => other.id !== booking.id);
+          await assertNoConflict(venue, others, restored);
+          return repositories.bookings.save(restored);
+        }
+        const saved = await repositories.bookings.save(restored);
+        await promoteWaitlist(repositories, saved.venueId);
+        return repositories.bookings.get(saved.id);
+      },
+      cancelOccurrence: async (id, date) => {
+        const { withoutOccurrence } = await findSeriesOccurrence(id, date);
+        const saved = await repositories.bookings.save(withoutOccurrence);
+        await promoteWaitlist(repositories, saved.venueId);
+        return saved;
+      },
+      editOccurrence: async (id, date, { scope, date: movedTo, startTime, endTime }) => {
+        const { user, booking, venue, withoutOccurrence } = await findSeriesOccurrence(id, date);
+        const timeError = validateTimeRange(startTime, endTime);
+        if (timeError) {
+          throw new ApiError(400, timeError);
+        }
+        const others = (await repositories.bookings.list()).filter(other => other.id !== booking.id);
+
+        // New times need approving again, from the first stage.
+        if (scope === 'series') {
+          const series = restartApproval({ ...booking, startTime, endTime }, venue);
+          await assertWithinRules(venue, others, series);
+          await assertNoConflict(venue, others, series);
+          const saved = await repositories.bookings.save(withChange(booking, series, user.username, true));
+          await promoteWaitlist(repositories, venue.id);
+          return saved;
+        }
+
+        const start = movedTo || date;
+        const dateError = validateDateRange(start, start);
+        if (dateError) {
+          throw new ApiError(400, dateError);
+        }
+        const detached = restartApproval(
+          {
+            ...booking,
+            id: crypto.randomUUID(),
+            date: start,
+            endDate: addDays(start, daysBetween(booking.date, booking.endDate)),
+            startTime,
+            endTime,
+            comments: [],
+            recurrence: null,
+            seriesId: booking.id,
+            history: []
+          },
+          venue
+        );
+        await assertWithinRules(venue, [...others, withoutOccurrence], detached);
+        await assertNoConflict(venue, [...others, withoutOccurrence], detached);
+        await repositories.bookings.save(withoutOccurrence);
+        const saved = await repositories.bookings.save(detached);
+        await promoteWaitlist(repositories, venue.id);
+        return saved;
+      },
+      confirmHold: async (id) => {
+        const user = await currentUser();
+        const booking = await findBooking(id);
+        if (booking.bookedBy !== user.username) {
+          throw new ApiError(403, 'Only the requester can confirm a hold.');
+        }
+        if (booking.status !== 'held' || isHoldLapsed(booking)) {
+          throw new ApiError(409, `Booking ${id} is not an active hold.`);
+        }
+        const venue = await repositories.venues.get(booking.venueId);
+        return repositories.bookings.save(restartApproval({ ...booking, heldUntil: null }, venue));
+      }
+    },
+    notifications: {
+      list: async () => {
+        const user = await currentUser();
+        const notifications = await repositories.notifications.list();
+        return notifications
+          .filter(notification => notification.username === user.username)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      },
+      markRead: async (id) => {
+        const user = await currentUser();
+        const notification = await repositories.notifications.get(id);
+        if (!notification || notification.username !== user.username) {
+          throw new ApiError(404, `Notification ${id} does not exist.`);
+        }
+        return repositories.notifications.save({ ...notification, read: true });
+      }
+    },
+    auth: {
+      login: async ({ username, password }) => {
+        if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+          throw new ApiError(400, 'Enter both your username and password.');
+        }
+
+        const users = await repositories.users.list();
+        const account = users.find(candidate => candidate.username.toLowerCase() === username.trim().toLowerCase());
+        const invalid = new ApiError(401, 'Invalid username or password.');
+
+        if (!account) {
+          throw invalid;
+        }
+
+        if (account.lockedUntil && new Date(account.lockedUntil) > new Date()) {
+          const until = new Date(account.lockedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+          throw new ApiError(423, `Too many failed attempts. This account is locked until ${until}.`);
+        }
+
+        if (!(await verifyPassword(password, account))) {
+          if (await recordFailedLogin(account)) {
+            throw new ApiError(423, `Too many failed attempts. This account is locked for ${LOCKOUT_MINUTES} minutes.`);
+          }
+          throw invalid;
+        }
+
+        await repositories.users.save({ ...account, failedLoginAttempts: 0, lockedUntil: null });
+        await pruneExpiredSessions();
+
+        const now = new Date().toISOString();
+        return issueToken({ id: crypto.randomUUID(), userId: account.id, createdAt: now, expiresAt: now }, account);
+      },
+      session: currentUser,
+      refresh: async () => {
+        const { session, account } = await currentSession();
+        return issueToken(session, account);
+      },
+      logout: async () => {
+        const token = getToken();
+        const claims = token ? await verifyToken(token, sessionSecret) : null;
+        if (claims) {
+          await repositories.sessions.remove(claims.sid);
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,185 @@
+import type { ImportedPeriod } from '../calendar-import';
+import type { AcademicPeriod, Booking, BufferTimes, OpeningHours, User, UserNotification, Venue, VenueClosure, VenueStatus } from '../types';
+
+export type NewBooking = Omit<
+  Booking,
+  | 'id'
+  | 'status'
+  | 'bookedBy'
+  | 'escalation'
+  | 'approvalChain'
+  | 'approvals'
+  | 'comments'
+  | 'seriesId'
+  | 'buffers'
+  | 'waitlistedAt'
+  | 'heldUntil'
+  | 'history'
+  | 'cancellation'
+> & {
+  /** Overrides the venue's setup and teardown; omit or null to use the venue's. */
+  buffers?: BufferTimes | null;
+  /** Joins the waitlist if the time is already taken, instead of failing with 409. */
+  waitlist?: boolean;
+  /** Places a tentative hold that lapses unless confirmed with `bookings.confirmHold`. */
+  hold?: boolean;
+};
+
+/** Every detail of an existing booking, as edited; the waitlist and hold choices only apply when booking. */
+export type BookingUpdate = Omit<NewBooking, 'waitlist' | 'hold'>;
+
+export interface ApproveRequest {
+  /** Conditions the requester must meet, e.g. "vacate by 5pm". */
+  conditions?: string;
+}
+
+export interface RejectRequest {
+  reason: string;
+}
+
+export interface CancelRequest {
+  reason: string;
+}
+
+export interface CommentRequest {
+  body: string;
+}
+
+export type NewClosure = Omit<VenueClosure, 'id' | 'createdBy' | 'createdAt'>;
+
+export interface CalendarImportRequest {
+  periods: ImportedPeriod[];
+  /** Drops every existing entry first, e.g. when loading a new academic year. */
+  replace: boolean;
+}
+
+/** What facilities staff enter for a venue; schedules and photos are managed separately. */
+export type VenueInput = Pick<Venue, 'name' | 'type' | 'capacity' | 'location' | 'amenities' | 'department'>;
+
+export interface NewVenuePhoto {
+  /** `photo` adds to the venue's gallery; `floorPlan` replaces its floor plan. */
+  slot: 'photo' | 'floorPlan';
+  /** JPEG, PNG or WebP data URLs, downscaled in the browser before upload. */
+  src: string;
+  thumbnail: string;
+  caption?: string;
+}
+
+export interface VenueStatusRequest {
+  status: VenueStatus;
+}
+
+export interface OperatingHoursRequest {
+  /** Indexed by weekday, 0 = Sunday; null for closed days. */
+  operatingHours: (OpeningHours | null)[];
+}
+
+/** New times for one occurrence of a series, or for the whole series. */
+export interface OccurrenceChange {
+  /** 'occurrence' takes just this date out into its own booking; 'series' retimes every occurrence. */
+  scope: 'occurrence' | 'series';
+  /** Moves a single occurrence to another first day; ignored for the series. */
+  date?: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  /** Signed session token, sent back as `Authorization: Bearer <token>`. */
+  token: string;
+  user: User;
+  expiresAt: string;
+}
+
+/**
+ * Operations the UI performs against venue data. Implemented both in-process
+ * (over the storage repositories) and over HTTP against the local API server.
+ * Every call except `auth.login` acts on behalf of the current session token.
+ */
+export interface BookingApi {
+  /** Every venue, archived ones included; only venue managers may change them. */
+  venues: {
+    list(): Promise<Venue[]>;
+    create(input: VenueInput): Promise<Venue>;
+    update(id: string, input: VenueInput): Promise<Venue>;
+    /** Archiving fails with 409 while the venue has upcoming bookings. */
+    setStatus(id: string, input: VenueStatusRequest): Promise<Venue>;
+    /** Fails with 409 while the venue has upcoming bookings. */
+    remove(id: string): Promise<void>;
+    addPhoto(id: string, input: NewVenuePhoto): Promise<Venue>;
+    /** Removes a gallery photo or the floor plan. */
+    removePhoto(id: string, photoId: string): Promise<Venue>;
+    updateHours(id: string, input: OperatingHoursRequest): Promise<Venue>;
+  };
+  /** Venue photos by the ids on `VenuePhoto`; readable without a session so that <img> tags can load them. */
+  images: {
+    /** A URL or data URL for an <img>; fails with 404 for unknown ids. */
+    get(id: string): Promise<string>;
+  };
+  /** Blackout and maintenance periods; only venue managers may change them. */
+  closures: {
+    list(): Promise<VenueClosure[]>;
+    create(input: NewClosure): Promise<VenueClosure>;
+    remove(id: string): Promise<void>;
+  };
+  /** Semesters, exams, vacations and holidays; only the registrar's office may change them. */
+  calendar: {
+    list(): Promise<AcademicPeriod[]>;
+    /** Resolves to the whole calendar after the import. */
+    import(input: CalendarImportRequest): Promise<AcademicPeriod[]>;
+    remove(id: string): Promise<void>;
+  };
+  bookings: {
+    list(): Promise<Booking[]>;
+    create(input: NewBooking): Promise<Booking>;
+    /**
+     * Edits a pending, approved or held booking. A new venue, date, time or
+     * department, or more attendees, sends an approved request back for approval.
+     */
+    update(id: string, input: BookingUpdate): Promise<Booking>;
+    approve(id: string, input?: ApproveRequest): Promise<Booking>;
+    reject(id: string, input: RejectRequest): Promise<Booking>;
+    comment(id: string, input: CommentRequest): Promise<Booking>;
+    /** Hands a cross-department request to the HOD of the department owning the venue. */
+    escalate(id: string): Promise<Booking>;
+    /** Marks the booking cancelled, keeping the record; frees its time for the waitlist. */
+    cancel(id: string, input: CancelRequest): Promise<Booking>;
+    /** Undoes a cancellation, failing with 409 if the time has been taken since. */
+    restore(id: string): Promise<Booking>;
+    /** Drops one occurrence of a series by adding it to the exception dates. */
+    cancelOccurrence(id: string, date: string): Promise<Booking>;
+    /** Resolves to the detached occurrence or the updated series, depending on the scope. */
+    editOccurrence(id: string, date: string, input: OccurrenceChange): Promise<Booking>;
+    /** Turns the requester's tentative hold into a full request awaiting approval. */
+    confirmHold(id: string): Promise<Booking>;
+  };
+  /** The current user's own notifications. */
+  notifications: {
+    /** Newest first. */
+    list(): Promise<UserNotification[]>;
+    markRead(id: string): Promise<UserNotification>;
+  };
+  auth: {
+    login(credentials: LoginRequest): Promise<LoginResponse>;
+    /** Resolves the user behind the current session token, or fails with 401. */
+    session(): Promise<User>;
+    /** Exchanges a still-valid token for one with a later expiry. */
+    refresh(): Promise<LoginResponse>;
+    logout(): Promise<void>;
+  };
+}
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
@@ -0,0 +1,45 @@
+const ITERATIONS = 100_000;
+const KEY_BYTES = 32;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) =>
+  new Uint8Array(hex.match(/.{2}/g)?.map(pair => parseInt(pair, 16)) ?? []);
+
+const derive = async (password: string, salt: Uint8Array) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: ITERATIONS },
+    key,
+    KEY_BYTES * 8
+  );
+  return new Uint8Array(bits);
+};
+
+export interface PasswordHash {
+  passwordHash: string;
+  passwordSalt: string;
+}
+
+/** PBKDF2-SHA256 with a random per-user salt; both values are hex encoded. */
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    passwordHash: toHex(await derive(password, salt)),
+    passwordSalt: toHex(salt)
+  };
+};
+
+export const verifyPassword = async (password: string, { passwordHash, passwordSalt }: PasswordHash) => {
+  const actual = await derive(password, fromHex(passwordSalt));
+  const expected = fromHex(passwordHash);
+  if (actual.length !== expected.length) return false;
+
+  // Compare every byte so the time taken does not reveal how much matched.
+  let difference = 0;
+  actual.forEach((byte, i) => {
+    difference |= byte ^ expected[i];
+  });
+  return difference === 0;
+};
@@ -0,0 +1,153 @@
+import { requiresEscalation, responsibleDepartment } from '../bookings';
+import type { Booking, User, UserType, Venue } from '../types';
+import { APPROVAL_STAGES, currentStage } from '../workflow';
+
+/**
+ * Which bookings a permission reaches: none at all, only the user's own, those
+ * belonging to the user's department, or every booking.
+ */
+export type Scope = 'none' | 'own' | 'department' | 'all';
+
+export interface RolePolicy {
+  label: string;
+  canBook: boolean;
+  approve: Scope;
+  /** Whose bookings the user may change or cancel. */
+  cancel: Scope;
+  canManageVenues: boolean;
+  /** Maintains the academic calendar: semesters, exams, vacations and holidays. */
+  canManageCalendar: boolean;
+  canManageUsers: boolean;
+}
+
+/** The single source of truth for what each role may do. */
+export const ROLE_POLICIES: Record<UserType, RolePolicy> = {
+  faculty: {
+    label: 'Faculty',
+    canBook: true,
+    approve: 'none',
+    cancel: 'own',
+    canManageVenues: false,
+    canManageCalendar: false,
+    canManageUsers: false
+  },
+  club_coordinator: {
+    label: 'Club Coordinator',
+    canBook: true,
+    approve: 'none',
+    cancel: 'own',
+    canManageVenues: false,
+    canManageCalendar: false,
+    canManageUsers: false
+  },
+  hod: {
+    label: 'HOD',
+    canBook: true,
+    approve: 'department',
+    cancel: 'department',
+    canManageVenues: false,
+    canManageCalendar: false,
+    canManageUsers: false
+  },
+  dean: {
+    label: 'Dean',
+    canBook: true,
+    approve: 'all',
+    cancel: 'own',
+    canManageVenues: false,
+    canManageCalendar: false,
+    canManageUsers: false
+  },
+  facilities_manager: {
+    label: 'Facilities Manager',
+    canBook: true,
+    approve: 'all',
+    cancel: 'all',
+    canManageVenues: true,
+    canManageCalendar: false,
+    canManageUsers: false
+  },
+  registrar: {
+    label: 'Registrar',
+    canBook: true,
+    approve: 'all',
+    cancel: 'all',
+    canManageVenues: false,
+    canManageCalendar: true,
+    canManageUsers: false
+  },
+  admin: {
+    label: 'System Admin',
+    canBook: true,
+    approve: 'all',
+    cancel: 'all',
+    canManageVenues: true,
+    canManageCalendar: true,
+    canManageUsers: true
+  }
+};
+
+export const roleLabel = (userType: UserType) => ROLE_POLICIES[userType]?.label ?? userType;
+
+const policyFor = (user: User | null | undefined) => (user ? ROLE_POLICIES[user.userType] : undefined);
+
+const inScope = (scope: Scope, user: User, booking: Booking, department: string) => {
+  switch (scope) {
+    case 'all':
+      return true;
+    case 'department':
+      return !!user.department && department === user.department;
+    case 'own':
+      return booking.bookedBy === user.username;
+    default:
+      return false;
+  }
+};
+
+export const canBook = (user: User | null | undefined) => !!policyFor(user)?.canBook;
+
+/** Whether the user reviews bookings at all, regardless of which ones. */
+export const isApprover = (user: User | null | undefined) => (policyFor(user)?.approve ?? 'none') !== 'none';
+
+/** The user's approval scope for the stage the booking is waiting on, if they take part in it. */
+const approveScope = (user: User | null | undefined, booking: Booking): Scope => {
+  const stage = currentStage(booking);
+  if (!user || !stage || !APPROVAL_STAGES[stage].approvers.includes(user.userType)) return 'none';
+
+  const scope = policyFor(user)?.approve ?? 'none';
+  return inScope(scope, user, booking, responsibleDepartment(booking)) ? scope : 'none';
+};
+
+/** Nobody decides a stage of their own request. */
+export const isOwnRequest = (user: User | null | undefined, booking: Booking) => !!user && booking.bookedBy === user.username;
+
+/**
+ * Whether the user may decide the stage the booking is currently waiting on.
+ * Department-level approvers cannot decide requests for a venue another
+ * department owns; they escalate those with `canEscalate` instead.
+ */
+export const canApprove = (user: User | null | undefined, booking: Booking, venue: Venue | undefined) => {
+  if (isOwnRequest(user, booking)) return false;
+  const scope = approveScope(user, booking);
+  return scope !== 'none' && (scope !== 'department' || !requiresEscalation(booking, venue));
+};
+
+export const canEscalate = (user: User | null | undefined, booking: Booking, venue: Venue | undefined) =>
+  approveScope(user, booking) === 'department' && requiresEscalation(booking, venue);
+
+/** The requester, and anyone who reviews bookings in the request's department, may comment. */
+export const canComment = (user: User | null | undefined, booking: Booking) => {
+  if (!user) return false;
+  const scope = policyFor(user)?.approve ?? 'none';
+  return isOwnRequest(user, booking) || inScope(scope, user, booking, responsibleDepartment(booking));
+};
+
+/** Requesters may always cancel their own bookings, on top of what their role reaches. */
+export const canCancel = (user: User | null | undefined, booking: Booking) =>
+  isOwnRequest(user, booking) || (!!user && inScope(policyFor(user)?.cancel ?? 'none', user, booking, booking.department));
+
+export const canManageVenues = (user: User | null | undefined) => !!policyFor(user)?.canManageVenues;
+
+export const canManageCalendar = (user: User | null | undefined) => !!policyFor(user)?.canManageCalendar;
+
+export const canManageUsers = (user: User | null | undefined) => !!policyFor(user)?.canManageUsers;
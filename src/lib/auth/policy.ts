@@ -0,0 +1,11 @@
+/** Failed sign-ins allowed before an account is locked. */
+export const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+/** Lifetime of a session token; active users are refreshed before it runs out. */
+export const SESSION_TTL_MINUTES = 30;
+export const REFRESH_WINDOW_MINUTES = 5;
+
+/** Signed-in users with no keyboard or pointer activity are signed out after this. */
+export const IDLE_TIMEOUT_MINUTES = 15;
+export const IDLE_WARNING_SECONDS = 60;
@@ -0,0 +1,7 @@
+const SESSION_KEY = 'geeta-venue-quest:session';
+
+export const getSessionToken = () => localStorage.getItem(SESSION_KEY);
+
+export const setSessionToken = (token: string) => localStorage.setItem(SESSION_KEY, token);
+
+export const clearSessionToken = () => localStorage.removeItem(SESSION_KEY);
@@ -0,0 +1,60 @@
+export interface TokenClaims {
+  /** Session id, so a token can be revoked by deleting its session. */
+  sid: string;
+  /** User id. */
+  sub: string;
+  /** Issued-at and expiry, in milliseconds since the epoch. */
+  iat: number;
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+/** Produces `<claims>.<HMAC-SHA256 signature>`, both base64url encoded. */
+export const signToken = async (claims: TokenClaims, secret: string) => {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/** Returns the claims of a correctly signed, unexpired token, otherwise null. */
+export const verifyToken = async (token: string, secret: string): Promise<TokenClaims | null> => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await importKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) return null;
+
+    const claims = readTokenClaims(token);
+    return claims && claims.exp > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decodes the claims without checking the signature. Only for the client to
+ * schedule refreshes; never use it to make an authorisation decision.
+ */
+export const readTokenClaims = (token: string): TokenClaims | null => {
+  try {
+    return JSON.parse(new TextDecoder().decode(fromBase64Url(token.split('.')[0])));
+  } catch {
+    return null;
+  }
+};
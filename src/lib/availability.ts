@@ -0,0 +1,248 @@
+import { calendarRestrictions, describeRestriction } from './academic-calendar';
+import { occurrencesOf } from './recurrence';
+import { closureAt, describeClosure, hoursOn, outsideHours } from './schedule';
+import { datesBetween, fromMinutes, rangesOverlap, SCHEDULING, timeSteps, toMinutes } from './time';
+import type { AcademicPeriod, Booking, BufferTimes, Recurrence, Venue, VenueClosure, VenueType } from './types';
+
+/** Setup and teardown a venue of each type starts with. */
+export const DEFAULT_BUFFERS: Record<VenueType, BufferTimes> = {
+  classroom: { setupMinutes: 0, teardownMinutes: 0 },
+  lab: { setupMinutes: 0, teardownMinutes: 0 },
+  conference: { setupMinutes: 0, teardownMinutes: 30 },
+  auditorium: { setupMinutes: 60, teardownMinutes: 60 },
+  outdoor: { setupMinutes: 60, teardownMinutes: 60 }
+};
+
+/** Longest setup or teardown a venue or booking may ask for. */
+export const MAX_BUFFER_MINUTES = 240;
+
+export interface TimeRequest {
+  venueId: string;
+  date: string;
+  /** Last day of the request; the time range repeats on every day in between. */
+  endDate: string;
+  startTime: string;
+  endTime: string;
+  /** Repeats the request as a series; the range above is its first occurrence. */
+  recurrence?: Recurrence | null;
+  /** Setup and teardown held around the range; none if omitted. */
+  buffers?: BufferTimes | null;
+}
+
+type DateSpan = Pick<TimeRequest, 'date' | 'endDate' | 'recurrence'>;
+
+/** Bookings that hold their time: pending, approved or tentatively held, but not turned down, lapsed or waitlisted. */
+export const blocksTime = (booking: Booking) =>
+  booking.status === 'pending' || booking.status === 'approved' || booking.status === 'held';
+
+/** The days a booking or request occupies, across every occurrence. */
+export const occupiedDates = (span: DateSpan) =>
+  occurrencesOf(span).flatMap(({ date, endDate }) => datesBetween(date, endDate));
+
+/** Days on which both are held. */
+export const sharedDates = (a: DateSpan, b: DateSpan) => {
+  const held = new Set(occupiedDates(b));
+  return occupiedDates(a).filter(date => held.has(date));
+};
+
+/** Minutes from midnight that the venue is held, setup and teardown included. */
+export const heldMinutes = ({ startTime, endTime, buffers }: Pick<TimeRequest, 'startTime' | 'endTime' | 'buffers'>) => ({
+  start: toMinutes(startTime) - (buffers?.setupMinutes ?? 0),
+  end: toMinutes(endTime) + (buffers?.teardownMinutes ?? 0)
+});
+
+/** "60 min setup, 30 min teardown", or null when nothing is held either side. */
+export const formatBuffers = ({ setupMinutes, teardownMinutes }: BufferTimes) => {
+  const parts = [
+    setupMinutes ? `${setupMinutes} min setup` : null,
+    teardownMinutes ? `${teardownMinutes} min teardown` : null
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : null;
+};
+
+/** Explains why a setup/teardown pair cannot be used, or returns null if it can. */
+export const validateBuffers = ({ setupMinutes, teardownMinutes }: BufferTimes) => {
+  const step = SCHEDULING.granularityMinutes;
+  const valid = (minutes: number) =>
+    Number.isInteger(minutes) && minutes >= 0 && minutes <= MAX_BUFFER_MINUTES && minutes % step === 0;
+  if (!valid(setupMinutes) || !valid(teardownMinutes)) {
+    return `Setup and teardown must be 0 to ${MAX_BUFFER_MINUTES} minutes, in ${step}-minute steps.`;
+  }
+  return null;
+};
+
+/**
+ * Whether two requests want the same venue at overlapping times on any shared
+ * day. Setup and teardown on either side count, so back-to-back events leave
+ * room to change over.
+ */
+export const requestsOverlap = (a: TimeRequest, b: TimeRequest) => {
+  const heldA = heldMinutes(a);
+  const heldB = heldMinutes(b);
+  return a.venueId === b.venueId && rangesOverlap(heldA.start, heldA.end, heldB.start, heldB.end) && sharedDates(a, b).length > 0;
+};
+
+/**
+ * Existing bookings whose time overlaps the request on any of its days,
+ * including every occurrence of a series. `ignoreId` skips the booking being edited.
+ */
+export const findConflicts = (bookings: Booking[], request: TimeRequest, ignoreId?: string) =>
+  bookings.filter(booking => booking.id !== ignoreId && blocksTime(booking) && requestsOverlap(request, booking));
+
+/** Everything besides other bookings that decides when a venue can be used. */
+export interface ScheduleContext {
+  closures: VenueClosure[];
+  calendar: AcademicPeriod[];
+}
+
+type ScheduledVenue = Pick<Venue, 'id' | 'name' | 'type' | 'operatingHours'>;
+
+/** Why the venue cannot be used on `date` during `start`-`end` (minutes), and how to show it. */
+const dayProblem = (venue: ScheduledVenue, { closures, calendar }: ScheduleContext, date: string, start: number, end: number) => {
+  const hours = outsideHours(venue, date, start, end);
+  if (hours) return { status: 'closed' as const, reason: hours };
+
+  const closure = closureAt(venue.id, closures, date, start, end);
+  if (closure) return { status: 'blackout' as const, reason: describeClosure(closure) };
+
+  const blocked = calendarRestrictions(venue, calendar, [date]).find(restriction => restriction.effect === 'block');
+  return blocked ? { status: 'blackout' as const, reason: describeRestriction(blocked) } : null;
+};
+
+/**
+ * Why the venue is closed for some day of the request: outside its opening
+ * hours, during a blackout or maintenance, or in a calendar period that bars
+ * bookings. Null if it is open throughout.
+ */
+export const scheduleProblem = (venue: ScheduledVenue, context: ScheduleContext, request: TimeRequest) => {
+  const start = toMinutes(request.startTime);
+  const end = toMinutes(request.endTime);
+  for (const date of occupiedDates(request)) {
+    const problem = dayProblem(venue, context, date, start, end);
+    if (problem) return `${problem.reason} (${date}).`;
+  }
+  return null;
+};
+
+export interface OccurrenceConflicts {
+  date: string;
+  endDate: string;
+  conflicts: Booking[];
+  /** Set when the venue is closed for the occurrence. */
+  closed: string | null;
+}
+
+/** The request's occurrences, each with the bookings it would clash with and any closure. */
+export const occurrenceConflicts = (
+  bookings: Booking[],
+  venue: ScheduledVenue,
+  context: ScheduleContext,
+  request: TimeRequest,
+  ignoreId?: string
+): OccurrenceConflicts[] =>
+  occurrencesOf(request).map(occurrence => {
+    const single = { ...request, ...occurrence, recurrence: null };
+    return {
+      ...occurrence,
+      conflicts: findConflicts(bookings, single, ignoreId),
+      closed: scheduleProblem(venue, context, single)
+    };
+  });
+
+/**
+ * `buffer` cells are only held for another booking's setup or teardown,
+ * `closed` cells fall outside opening hours, and `blackout` cells in a
+ * blackout, maintenance or calendar period that bars bookings.
+ */
+export type CellStatus = 'free' | 'booked' | 'buffer' | 'closed' | 'blackout';
+
+export interface AvailabilityCell {
+  start: string;
+  end: string;
+  status: CellStatus;
+  /** Why the cell is unavailable, shown as a tooltip. */
+  reason?: string;
+}
+
+/** Earliest opening to latest closing across the dates, so the grid covers every open hour. */
+const gridHours = (venue: ScheduledVenue, dates: string[]) => {
+  const open = dates.map(date => hoursOn(venue, date)).filter(Boolean);
+  if (open.length === 0) return { from: SCHEDULING.dayStart, to: SCHEDULING.dayEnd };
+  return {
+    from: fromMinutes(Math.min(...open.map(hours => toMinutes(hours.open)))),
+    to: fromMinutes(Math.max(...open.map(hours => toMinutes(hours.close))))
+  };
+};
+
+/**
+ * The venue's day split into granularity-sized cells, each marked free, taken
+ * or closed. Over several days, or a series, a cell is only free if it is free
+ * on all of them. `ignoreId` skips the booking being edited.
+ */
+export const availabilityCells = (
+  bookings: Booking[],
+  venue: ScheduledVenue,
+  context: ScheduleContext,
+  span: DateSpan,
+  ignoreId?: string
+): AvailabilityCell[] => {
+  const singleDay = !span.recurrence && span.date === span.endDate;
+  const dates = occupiedDates(span);
+  const { from, to } = gridHours(venue, dates);
+  return timeSteps(from, to).map(({ start, end }) => {
+    const on = (date: string) => (singleDay ? '' : ` (${date})`);
+    for (const date of dates) {
+      const problem = dayProblem(venue, context, date, toMinutes(start), toMinutes(end));
+      if (problem) return { start, end, status: problem.status, reason: `${problem.reason}${on(date)}` };
+    }
+
+    const conflicts = findConflicts(bookings, { venueId: venue.id, ...span, startTime: start, endTime: end }, ignoreId);
+    if (conflicts.length === 0) {
+      return { start, end, status: 'free' };
+    }
+    const inUse = conflicts.find(conflict =>
+      rangesOverlap(toMinutes(start), toMinutes(end), toMinutes(conflict.startTime), toMinutes(conflict.endTime))
+    );
+    const conflict = inUse ?? conflicts[0];
+    const [clash] = sharedDates(conflict, span);
+    const when = `${singleDay ? '' : `${clash}, `}${conflict.startTime}-${conflict.endTime}`;
+    return inUse
+      ? { start, end, status: 'booked', reason: `${conflict.purpose} (${when})` }
+      : {
+          start,
+          end,
+          status: 'buffer',
+          reason: `${toMinutes(end) <= toMinutes(conflict.startTime) ? 'Setup' : 'Teardown'} for ${conflict.purpose} (${when})`
+        };
+  });
+};
+
+/** How a venue stands for a single slot on one day. */
+export type SlotStatus = 'free' | 'booked' | 'closed';
+
+export interface SlotAvailability {
+  status: SlotStatus;
+  /** What takes or closes the slot. */
+  reason?: string;
+}
+
+/**
+ * Whether the venue could take a booking on `date` from `startTime` to
+ * `endTime`, holding its usual setup and teardown around it.
+ */
+export const slotAvailability = (
+  bookings: Booking[],
+  venue: ScheduledVenue & Pick<Venue, 'buffers'>,
+  context: ScheduleContext,
+  date: string,
+  startTime: string,
+  endTime: string
+): SlotAvailability => {
+  const problem = dayProblem(venue, context, date, toMinutes(startTime), toMinutes(endTime));
+  if (problem) return { status: 'closed', reason: problem.reason };
+
+  const [conflict] = findConflicts(bookings, { venueId: venue.id, date, endDate: date, startTime, endTime, buffers: venue.buffers });
+  return conflict
+    ? { status: 'booked', reason: `${conflict.purpose} (${conflict.startTime}-${conflict.endTime})` }
+    : { status: 'free' };
+};
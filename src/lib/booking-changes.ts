@@ -0,0 +1,73 @@
+import { formatBuffers } from './availability';
+import { departmentName } from './departments';
+import { describeRecurrence } from './recurrence';
+import type { Booking, BookingStatus, FieldChange } from './types';
+
+type EditableField = FieldChange['field'];
+
+/** Statuses a requester can still edit; decided, lapsed and waitlisted requests cannot be. */
+export const EDITABLE_STATUSES: BookingStatus[] = ['pending', 'approved', 'held'];
+
+export const canEditStatus = (booking: Booking) => EDITABLE_STATUSES.includes(booking.status);
+
+/** Waitlisted requests can be cancelled too, to leave the queue. */
+export const canCancelStatus = (booking: Booking) => booking.status === 'waitlisted' || canEditStatus(booking);
+
+const FIELD_LABELS: Record<EditableField, string> = {
+  venueId: 'Venue',
+  date: 'First day',
+  endDate: 'Last day',
+  startTime: 'Start',
+  endTime: 'End',
+  recurrence: 'Repeats',
+  buffers: 'Setup & teardown',
+  attendees: 'Attendees',
+  purpose: 'Purpose',
+  requirements: 'Requirements',
+  contactEmail: 'Contact email',
+  department: 'Department'
+};
+
+export const fieldLabel = (field: EditableField) => FIELD_LABELS[field];
+
+const display = (booking: Booking, field: EditableField): string => {
+  switch (field) {
+    case 'venueId':
+      return booking.venueName;
+    case 'recurrence':
+      if (!booking.recurrence) return 'Does not repeat';
+      return booking.recurrence.exceptions.length
+        ? `${describeRecurrence(booking.recurrence)}, skipping ${booking.recurrence.exceptions.join(', ')}`
+        : describeRecurrence(booking.recurrence);
+    case 'buffers':
+      return formatBuffers(booking.buffers) ?? 'None';
+    case 'department':
+      return departmentName(booking.department);
+    default:
+      return String(booking[field] ?? '');
+  }
+};
+
+/** Every tracked field that differs between the two versions, as shown to people. */
+export const diffBooking = (before: Booking, after: Booking): FieldChange[] =>
+  (Object.keys(FIELD_LABELS) as EditableField[])
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, from: display(before, field), to: display(after, field) }));
+
+const SCHEDULE_FIELDS: EditableField[] = ['venueId', 'date', 'endDate', 'startTime', 'endTime', 'recurrence', 'buffers'];
+
+/** Whether the changes move the booking to another venue or time, so it has to be checked for clashes again. */
+export const reschedules = (changes: FieldChange[]) => changes.some(({ field }) => SCHEDULE_FIELDS.includes(field));
+
+/**
+ * Whether the edit has to be approved again: a different venue, dates,
+ * times, repeat pattern or department, or more attendees than were approved.
+ * Fewer attendees and edits to the wording do not.
+ */
+export const needsReapproval = (before: Booking, after: Booking) => {
+  const changes = diffBooking(before, after);
+  return (
+    reschedules(changes) ||
+    changes.some(({ field }) => field === 'department' || (field === 'attendees' && after.attendees > before.attendees))
+  );
+};
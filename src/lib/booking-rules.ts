@@ -0,0 +1,94 @@
+import { blocksTime, occupiedDates } from './availability';
+import { occurrencesOf } from './recurrence';
+import { addDays, formatDate, localDate, toMinutes, weekdayOf } from './time';
+import type { Booking, VenueType } from './types';
+
+export interface BookingRule {
+  /** Hours between making the request and the start of its next occurrence. */
+  minLeadHours: number;
+  /** Days ahead of today the last day of the request may fall. */
+  maxAdvanceDays: number;
+  /** Longest time range per day; multi-day events are held this long on each day. */
+  maxDurationMinutes: number;
+  /** Bookings one requester may hold at venues of this type in a Monday–Sunday week. */
+  maxBookingsPerWeek: number;
+}
+
+/** How far ahead, for how long and how often each type of venue can be booked. */
+export const BOOKING_RULES: Record<VenueType, BookingRule> = {
+  classroom: { minLeadHours: 2, maxAdvanceDays: 120, maxDurationMinutes: 240, maxBookingsPerWeek: 10 },
+  lab: { minLeadHours: 24, maxAdvanceDays: 120, maxDurationMinutes: 360, maxBookingsPerWeek: 4 },
+  conference: { minLeadHours: 2, maxAdvanceDays: 90, maxDurationMinutes: 240, maxBookingsPerWeek: 5 },
+  auditorium: { minLeadHours: 72, maxAdvanceDays: 180, maxDurationMinutes: 480, maxBookingsPerWeek: 2 },
+  outdoor: { minLeadHours: 72, maxAdvanceDays: 180, maxDurationMinutes: 600, maxBookingsPerWeek: 2 }
+};
+
+/** A broken rule, with the booking form field it belongs to. */
+export interface RuleViolation {
+  field: 'date' | 'endTime';
+  message: string;
+}
+
+type RuleRequest = Pick<Booking, 'date' | 'endDate' | 'startTime' | 'endTime' | 'recurrence'>;
+
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+const formatHours = (hours: number) => (hours % 24 === 0 ? plural(hours / 24, 'day') : plural(hours, 'hour'));
+
+/** The Monday starting the week `date` falls in. */
+const weekOf = (date: string) => addDays(date, -((weekdayOf(date) + 6) % 7));
+
+/** "Book at least 3 days ahead and at most 180 days out, …", for the booking dialog. */
+export const describeBookingRule = ({ minLeadHours, maxAdvanceDays, maxDurationMinutes, maxBookingsPerWeek }: BookingRule) =>
+  `Book at least ${formatHours(minLeadHours)} ahead and at most ${plural(maxAdvanceDays, 'day')} out, ` +
+  `for up to ${formatHours(maxDurationMinutes / 60)} a day and ${plural(maxBookingsPerWeek, 'booking')} a week.`;
+
+/**
+ * The venue type's rules the request breaks. `ownBookings` are the
+ * requester's other bookings at venues of the same type; rejected ones do not
+ * count towards the weekly limit.
+ */
+export const bookingRuleViolations = (
+  venueType: VenueType,
+  request: RuleRequest,
+  ownBookings: Booking[],
+  now = new Date()
+): RuleViolation[] => {
+  const rule = BOOKING_RULES[venueType];
+  const occurrences = occurrencesOf(request);
+  const violations: RuleViolation[] = [];
+  if (occurrences.length === 0) return violations;
+
+  // A series already under way is held to the lead time from its next occurrence.
+  const nextStart = occurrences
+    .map(({ date }) => new Date(`${date}T${request.startTime}`).getTime())
+    .find(start => start > now.getTime());
+  if (nextStart === undefined || nextStart - now.getTime() < rule.minLeadHours * 3_600_000) {
+    violations.push({ field: 'date', message: `This venue must be booked at least ${formatHours(rule.minLeadHours)} in advance.` });
+  }
+
+  const lastDay = occurrences[occurrences.length - 1].endDate;
+  const horizon = addDays(localDate(now), rule.maxAdvanceDays);
+  if (lastDay > horizon) {
+    violations.push({
+      field: 'date',
+      message: `This venue can only be booked up to ${formatDate(horizon)} (${plural(rule.maxAdvanceDays, 'day')} ahead).`
+    });
+  }
+
+  if (toMinutes(request.endTime) - toMinutes(request.startTime) > rule.maxDurationMinutes) {
+    violations.push({ field: 'endTime', message: `Bookings here can last at most ${formatHours(rule.maxDurationMinutes / 60)} a day.` });
+  }
+
+  const weeksHeld = (span: RuleRequest) => new Set(occupiedDates(span).map(weekOf));
+  const held = ownBookings.filter(blocksTime).map(weeksHeld);
+  const fullWeek = [...weeksHeld(request)].find(week => held.filter(weeks => weeks.has(week)).length >= rule.maxBookingsPerWeek);
+  if (fullWeek) {
+    violations.push({
+      field: 'date',
+      message: `You already have ${plural(rule.maxBookingsPerWeek, 'booking')} at venues like this in the week of ${formatDate(fullWeek)}, the most allowed.`
+    });
+  }
+
+  return violations;
+};
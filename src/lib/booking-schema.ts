@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { DEPARTMENTS } from './departments';
+
+/** Contact addresses must be on the university's domain. */
+export const UNIVERSITY_EMAIL_DOMAIN = 'geeta.edu';
+
+export const PURPOSE_LENGTH = { min: 5, max: 120 };
+
+export const MAX_REQUIREMENTS_LENGTH = 1000;
+
+const departmentIds = DEPARTMENTS.map(department => department.id) as [string, ...string[]];
+
+/**
+ * What the requester fills in about a booking at a venue seating `capacity`.
+ * The booking form resolves with this schema and the service parses every new
+ * booking with it, so the rules and their messages are the same everywhere.
+ */
+export const bookingDetailsSchema = (capacity: number) =>
+  z.object({
+    purpose: z
+      .string()
+      .trim()
+      .min(PURPOSE_LENGTH.min, `Describe the purpose in at least ${PURPOSE_LENGTH.min} characters.`)
+      .max(PURPOSE_LENGTH.max, `Keep the purpose to ${PURPOSE_LENGTH.max} characters.`),
+    attendees: z
+      .number({ invalid_type_error: 'Enter the number of attendees.' })
+      .int('Enter a whole number of attendees.')
+      .min(1, 'At least one person must attend.')
+      .max(capacity, `This venue holds at most ${capacity} people.`),
+    requirements: z
+      .string()
+      .trim()
+      .max(MAX_REQUIREMENTS_LENGTH, `Keep the requirements to ${MAX_REQUIREMENTS_LENGTH} characters.`)
+      .default(''),
+    contactEmail: z
+      .string()
+      .trim()
+      .email('Enter a valid email address.')
+      .refine(email => email.toLowerCase().endsWith(`@${UNIVERSITY_EMAIL_DOMAIN}`), {
+        message: `Use your @${UNIVERSITY_EMAIL_DOMAIN} address.`
+      }),
+    department: z.enum(departmentIds, {
+      errorMap: () => ({ message: 'Select the department making this request.' })
+    })
+  });
+
+export type BookingDetails = z.infer<ReturnType<typeof bookingDetailsSchema>>;
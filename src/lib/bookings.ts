@@ -0,0 +1,33 @@
+import { blocksTime, occupiedDates } from './availability';
+import { occurrencesOf } from './recurrence';
+import { localDate } from './time';
+import type { Booking, Venue } from './types';
+
+/** The department whose HOD currently decides the booking. */
+export const responsibleDepartment = (booking: Booking) =>
+  booking.escalation?.toDepartment ?? booking.department;
+
+/**
+ * True when the venue belongs to a department other than the one currently
+ * deciding the booking, so the decision has to move to the owning department.
+ */
+export const requiresEscalation = (booking: Booking, venue: Venue | undefined) =>
+  !!venue?.department && venue.department !== responsibleDepartment(booking);
+
+/**
+ * Bookings at the venue that hold or wait for time on `today` or later; a
+ * venue with any cannot be archived or deleted.
+ */
+export const upcomingBookings = (bookings: Booking[], venueId: string, today = localDate()) =>
+  bookings.filter(booking =>
+    booking.venueId === venueId &&
+    (blocksTime(booking) || booking.status === 'waitlisted') &&
+    occupiedDates(booking).some(date => date >= today)
+  );
+
+/** True once the booking's last occurrence is over. */
+export const hasEnded = (booking: Booking, now = new Date()) => {
+  const occurrences = occurrencesOf(booking);
+  const last = occurrences[occurrences.length - 1];
+  return !last || new Date(`${last.endDate}T${booking.endTime}`) <= now;
+};
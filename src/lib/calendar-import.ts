@@ -0,0 +1,140 @@
+import { PERIOD_KINDS } from './academic-calendar';
+import { addDays, isDate } from './time';
+import type { AcademicPeriod, AcademicPeriodKind } from './types';
+
+export type ImportedPeriod = Omit<AcademicPeriod, 'id'>;
+
+export interface CalendarImport {
+  periods: ImportedPeriod[];
+  /** Entries that could not be read, with where they were found. */
+  errors: string[];
+}
+
+/**
+ * Maps an ICS category, CSV kind or event title onto a calendar entry type, or
+ * null if it names none. Holidays close the campus, so they are never assumed.
+ */
+export const guessPeriodKind = (text: string): AcademicPeriodKind | null => {
+  const value = text.trim().toLowerCase();
+  const exact = (Object.keys(PERIOD_KINDS) as AcademicPeriodKind[]).find(
+    kind => kind === value || PERIOD_KINDS[kind].toLowerCase() === value
+  );
+  if (exact) return exact;
+  if (/exam/.test(value)) return /end|final/.test(value) ? 'endsem_exams' : 'midsem_exams';
+  if (/vacation|break|recess/.test(value)) return 'vacation';
+  if (/semester|\bsem\b|term/.test(value)) return 'semester';
+  if (/holiday/.test(value)) return 'holiday';
+  return null;
+};
+
+const KIND_CHOICES = Object.values(PERIOD_KINDS).join(', ');
+
+/** "20260126" or "20260126T000000Z" to "2026-01-26". */
+const icsDate = (value: string) => `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+
+const unescapeIcs = (value: string) => value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+/**
+ * Reads VEVENTs from an iCalendar file. All-day events end the day before
+ * DTEND, as the format's end date is exclusive.
+ */
+export const parseIcs = (contents: string): CalendarImport => {
+  const lines = contents.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const periods: ImportedPeriod[] = [];
+  const errors: string[] = [];
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+    } else if (line === 'END:VEVENT' && event) {
+      const summary = unescapeIcs(event.SUMMARY ?? '');
+      const start = event.DTSTART ?? '';
+      const end = event.DTEND;
+      const startDate = icsDate(start);
+      const kind = guessPeriodKind(event.CATEGORIES || summary);
+      if (!summary || !isDate(startDate)) {
+        errors.push(`Skipped an event without a title or start date${summary ? ` (${summary})` : ''}.`);
+      } else if (!kind) {
+        errors.push(`Skipped ${summary}: set its category to one of ${KIND_CHOICES}.`);
+      } else {
+        const allDay = start.length === 8;
+        const endDate = end ? (allDay ? addDays(icsDate(end), -1) : icsDate(end)) : startDate;
+        periods.push({
+          kind,
+          name: summary,
+          startDate,
+          endDate: endDate < startDate ? startDate : endDate
+        });
+      }
+      event = null;
+    } else if (event) {
+      // NAME;PARAM=...:VALUE; parameters such as VALUE=DATE are not needed.
+      const match = /^([A-Z-]+)(?:;[^:]*)?:(.*)$/.exec(line);
+      if (match) event[match[1]] = match[2];
+    }
+  }
+
+  return { periods, errors };
+};
+
+/** Splits one CSV line, honouring double-quoted fields. */
+const splitCsvLine = (line: string) => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (quoted && char === '"' && line[i + 1] === '"') {
+      field += '"';
+      i += 1;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+/** Reads a CSV with a `kind,name,start,end` header; `end` may be blank for single days. */
+export const parseCsv = (contents: string): CalendarImport => {
+  const [header, ...rows] = contents.replace(/\r\n/g, '\n').split('\n');
+  const columns = splitCsvLine(header ?? '').map(column => column.toLowerCase());
+  const at = (name: string) => columns.indexOf(name);
+  const periods: ImportedPeriod[] = [];
+  const errors: string[] = [];
+
+  if (at('name') < 0 || at('start') < 0) {
+    return { periods, errors: ['The first row must name the columns: kind, name, start, end.'] };
+  }
+
+  rows.forEach((row, index) => {
+    if (!row.trim()) return;
+    const fields = splitCsvLine(row);
+    const name = fields[at('name')] ?? '';
+    const startDate = fields[at('start')] ?? '';
+    const endDate = (at('end') >= 0 && fields[at('end')]) || startDate;
+    if (!name || !isDate(startDate) || !isDate(endDate)) {
+      errors.push(`Row ${index + 2}: needs a name and YYYY-MM-DD dates.`);
+      return;
+    }
+    const given = fields[at('kind')] ?? '';
+    const kind = guessPeriodKind(given || name);
+    if (!kind) {
+      errors.push(`Row ${index + 2}: ${given ? `"${given}" is not a kind` : `${name} needs a kind`}; use one of ${KIND_CHOICES}.`);
+      return;
+    }
+    periods.push({ kind, name, startDate, endDate });
+  });
+
+  return { periods, errors };
+};
+
+/** Picks the parser from the file name, falling back to sniffing the contents. */
+export const parseCalendarFile = (fileName: string, contents: string) =>
+  /\.ics$/i.test(fileName) || contents.trimStart().startsWith('BEGIN:VCALENDAR') ? parseIcs(contents) : parseCsv(contents);
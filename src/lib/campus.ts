@@ -0,0 +1,74 @@
+import type { Venue, VenueLocation } from './types';
+
+export interface Campus {
+  id: string;
+  name: string;
+}
+
+/** A rectangle on the campus map, in the 1000×600 units of `src/assets/campus-map.svg`. */
+export interface MapOutline {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Building {
+  id: string;
+  name: string;
+  campusId: string;
+  /** Floors above ground; floor 0 is the ground floor. */
+  floors: number;
+  outline: MapOutline;
+}
+
+export const CAMPUSES: Campus[] = [
+  { id: 'main', name: 'Main Campus' },
+  { id: 'north', name: 'North Campus' }
+];
+
+/** The buildings venues can be in, in the order the venues grid groups them. */
+export const BUILDINGS: Building[] = [
+  { id: 'academic-a', name: 'Academic Block A', campusId: 'main', floors: 4, outline: { x: 60, y: 80, width: 160, height: 90 } },
+  { id: 'academic-b', name: 'Academic Block B', campusId: 'main', floors: 4, outline: { x: 260, y: 80, width: 160, height: 90 } },
+  { id: 'academic-c', name: 'Academic Block C', campusId: 'main', floors: 3, outline: { x: 460, y: 80, width: 110, height: 90 } },
+  { id: 'admin', name: 'Administrative Block', campusId: 'main', floors: 3, outline: { x: 260, y: 360, width: 160, height: 80 } },
+  { id: 'library', name: 'Central Library', campusId: 'main', floors: 3, outline: { x: 460, y: 360, width: 110, height: 110 } },
+  { id: 'it', name: 'IT Block', campusId: 'north', floors: 5, outline: { x: 680, y: 70, width: 150, height: 100 } },
+  { id: 'sports-complex', name: 'Sports Complex', campusId: 'north', floors: 2, outline: { x: 680, y: 260, width: 270, height: 280 } }
+];
+
+export const findBuilding = (id: string) => BUILDINGS.find(building => building.id === id);
+
+export const buildingName = (id: string) => findBuilding(id)?.name ?? id;
+
+export const campusName = (id: string | undefined) => CAMPUSES.find(campus => campus.id === id)?.name ?? 'Off campus';
+
+/** Maps a free-text location (as stored before v21) to its building id, if recognised. */
+export const findBuildingId = (name: string) => {
+  const normalised = name.trim().toLowerCase();
+  return BUILDINGS.find(building => building.id === normalised || building.name.toLowerCase() === normalised)?.id ?? null;
+};
+
+/** "Ground floor", "1st floor", "2nd floor"… */
+export const floorLabel = (floor: number) => {
+  if (floor === 0) return 'Ground floor';
+  const suffix = floor % 100 >= 11 && floor % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][floor % 10] ?? 'th';
+  return `${floor}${suffix} floor`;
+};
+
+/** "Room 101, 1st floor, Academic Block B", leaving out the parts a venue has none of. */
+export const formatLocation = ({ buildingId, floor, room }: VenueLocation) =>
+  [room && `Room ${room}`, floor !== null && floorLabel(floor), buildingName(buildingId)].filter(Boolean).join(', ');
+
+/** Venues under their building, buildings in catalog order and ones not in the catalog last. */
+export const groupByBuilding = (venues: Venue[]) => {
+  const ids = [...new Set(venues.map(venue => venue.location.buildingId))];
+  const rank = (id: string) => {
+    const index = BUILDINGS.findIndex(building => building.id === id);
+    return index === -1 ? BUILDINGS.length : index;
+  };
+  return ids
+    .sort((a, b) => rank(a) - rank(b))
+    .map(buildingId => ({ buildingId, venues: venues.filter(venue => venue.location.buildingId === buildingId) }));
+};
@@ -0,0 +1,34 @@
+export interface Department {
+  id: string;
+  name: string;
+}
+
+/** Academic departments and university bodies that can raise or own bookings. */
+export const DEPARTMENTS: Department[] = [
+  { id: 'cse', name: 'Computer Science' },
+  { id: 'ece', name: 'Electronics & Communication' },
+  { id: 'ee', name: 'Electrical Engineering' },
+  { id: 'me', name: 'Mechanical Engineering' },
+  { id: 'ce', name: 'Civil Engineering' },
+  { id: 'applied-sciences', name: 'Applied Sciences' },
+  { id: 'humanities', name: 'Humanities & Social Sciences' },
+  { id: 'management', name: 'Management Studies' },
+  { id: 'law', name: 'Law' },
+  { id: 'pharmacy', name: 'Pharmacy' },
+  { id: 'cultural-committee', name: 'Cultural Committee' },
+  { id: 'sports-committee', name: 'Sports Committee' }
+];
+
+export const isDepartmentId = (value: string) => DEPARTMENTS.some(department => department.id === value);
+
+export const departmentName = (id: string | null | undefined) =>
+  DEPARTMENTS.find(department => department.id === id)?.name ?? id ?? 'Unassigned';
+
+/** Maps a free-text department name (as stored before v5) to its id, if recognised. */
+export const findDepartmentId = (name: string | null | undefined) => {
+  const normalised = name?.trim().toLowerCase();
+  if (!normalised) return null;
+  return DEPARTMENTS.find(department =>
+    department.id === normalised || department.name.toLowerCase() === normalised
+  )?.id ?? null;
+};
@@ -0,0 +1,24 @@
+import type { Booking } from './types';
+
+/** How long a tentative hold keeps its time before it is released. */
+export const HOLD_DURATION_HOURS = 48;
+
+/** How often lapsed holds are looked for and released. */
+export const HOLD_RELEASE_INTERVAL_MS = 60_000;
+
+export const holdExpiry = (from = new Date()) =>
+  new Date(from.getTime() + HOLD_DURATION_HOURS * 3_600_000).toISOString();
+
+/** Holds whose time is up but which have not been released yet. */
+export const isHoldLapsed = (booking: Booking, now = new Date()) =>
+  booking.status === 'held' && !!booking.heldUntil && new Date(booking.heldUntil) <= now;
+
+/** "1d 4h", "3h 20m" or "12m" until `until`; "0m" once it has passed. */
+export const formatTimeLeft = (until: string, now = new Date()) => {
+  const minutes = Math.max(0, Math.floor((new Date(until).getTime() - now.getTime()) / 60_000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
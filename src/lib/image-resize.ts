@@ -0,0 +1,23 @@
+/**
+ * Downscales an image file in the browser so its longest side is at most
+ * `maxDimension` pixels, and returns it as a JPEG data URL. Smaller images
+ * are re-encoded at their own size.
+ */
+export const resizeImage = async (file: Blob, maxDimension: number, quality = 0.8) => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('This browser cannot process images.');
+  }
+  // JPEG has no transparency; fill it white rather than black.
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', quality);
+};
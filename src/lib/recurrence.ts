@@ -0,0 +1,162 @@
+import { addDays, daysBetween, isDate, weekdayOf } from './time';
+import type { Recurrence, RecurrenceFormData, RecurrenceFrequency } from './types';
+
+/** Upper bound on the occurrences one series may expand to. */
+export const MAX_OCCURRENCES = 100;
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, { unit: string; label: string }> = {
+  daily: { unit: 'day', label: 'Daily' },
+  weekly: { unit: 'week', label: 'Weekly' },
+  monthly: { unit: 'month', label: 'Monthly' }
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const sortWeekdays = (weekdays: number[]) => [...new Set(weekdays)].sort((a, b) => a - b);
+
+const addMonths = (date: string, months: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1 + months, day));
+  // Months without this day (the 31st, Feb 29th) are skipped, as RRULE does.
+  return shifted.getUTCDate() === day ? shifted.toISOString().slice(0, 10) : null;
+};
+
+/** Candidate start dates in order, before `until`, `count` and exceptions are applied. */
+function* candidates(date: string, { frequency, interval, byWeekday }: Recurrence) {
+  if (frequency === 'daily') {
+    for (let step = 0; ; step += 1) yield addDays(date, step * interval);
+  }
+  if (frequency === 'monthly') {
+    // Bounded so a date that never recurs (e.g. Feb 29th every 12 months from a leap year) still ends.
+    for (let step = 0; step <= MAX_OCCURRENCES * 12; step += 1) {
+      const next = addMonths(date, step * interval);
+      if (next) yield next;
+    }
+    return;
+  }
+
+  const weekdays = byWeekday.length ? sortWeekdays(byWeekday) : [weekdayOf(date)];
+  const weekStart = addDays(date, -weekdayOf(date));
+  for (let week = 0; ; week += interval) {
+    for (const weekday of weekdays) {
+      const next = addDays(weekStart, week * 7 + weekday);
+      if (next >= date) yield next;
+    }
+  }
+}
+
+const expand = (date: string, recurrence: Recurrence, limit: number) => {
+  const dates: string[] = [];
+  for (const next of candidates(date, recurrence)) {
+    if ((recurrence.until && next > recurrence.until) || dates.length >= limit) break;
+    dates.push(next);
+  }
+  return dates;
+};
+
+/**
+ * Start dates of every occurrence in the series beginning on `date`. Like
+ * RRULE's COUNT, `count` includes dates later listed as exceptions;
+ * pass `includeExceptions` to keep those in the result.
+ */
+export const expandRecurrence = (date: string, recurrence: Recurrence, includeExceptions = false) => {
+  const dates = expand(date, recurrence, Math.min(recurrence.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES));
+  return includeExceptions ? dates : dates.filter(next => !recurrence.exceptions.includes(next));
+};
+
+export interface Occurrence {
+  date: string;
+  endDate: string;
+}
+
+/** Each occurrence of a booking or request, spanning as many days as the first one. */
+export const occurrencesOf = ({ date, endDate, recurrence }: Occurrence & { recurrence?: Recurrence | null }): Occurrence[] => {
+  if (!recurrence) return [{ date, endDate }];
+  const span = daysBetween(date, endDate);
+  return expandRecurrence(date, recurrence).map(start => ({ date: start, endDate: addDays(start, span) }));
+};
+
+/** Explains why a recurrence pattern cannot be booked, or returns null if it can. */
+export const validateRecurrence = (date: string, endDate: string, recurrence: Recurrence) => {
+  const { frequency, interval, byWeekday, until, count, exceptions } = recurrence;
+
+  if (!Object.keys(FREQUENCY_LABELS).includes(frequency)) {
+    return 'Choose how often the booking repeats.';
+  }
+  if (!Number.isInteger(interval) || interval < 1) {
+    return 'The repeat interval must be a whole number of at least 1.';
+  }
+  if (!Array.isArray(byWeekday) || !byWeekday.every(weekday => Number.isInteger(weekday) && weekday >= 0 && weekday <= 6)) {
+    return 'Weekdays must be numbered 0 (Sunday) to 6 (Saturday).';
+  }
+  if ((until === null) === (count === null)) {
+    return 'A repeating booking needs either an end date or a number of occurrences.';
+  }
+  if (!Array.isArray(exceptions) || !exceptions.every(isDate)) {
+    return 'Skipped dates must be YYYY-MM-DD.';
+  }
+  if (until !== null && (!isDate(until) || until < date)) {
+    return 'The repeat end date must be on or after the first day.';
+  }
+  if (count !== null && (!Number.isInteger(count) || count < 1 || count > MAX_OCCURRENCES)) {
+    return `A series can have between 1 and ${MAX_OCCURRENCES} occurrences.`;
+  }
+  if (until !== null && expand(date, recurrence, MAX_OCCURRENCES + 1).length > MAX_OCCURRENCES) {
+    return `A series can have at most ${MAX_OCCURRENCES} occurrences; choose an earlier end date.`;
+  }
+  const occurrences = occurrencesOf({ date, endDate, recurrence });
+  if (occurrences.length === 0) {
+    return 'This pattern does not produce any dates.';
+  }
+  if (occurrences.some((occurrence, i) => i > 0 && occurrence.date <= occurrences[i - 1].endDate)) {
+    return 'Occurrences would overlap; repeat less often or shorten each occurrence.';
+  }
+  return null;
+};
+
+/** "Every 2 weeks on Mon, Wed until 2025-03-01" style summary. */
+export const describeRecurrence = ({ frequency, interval, byWeekday, until, count }: Recurrence) => {
+  const { unit } = FREQUENCY_LABELS[frequency];
+  const every = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  const on = frequency === 'weekly' && byWeekday.length ? ` on ${sortWeekdays(byWeekday).map(day => WEEKDAY_LABELS[day]).join(', ')}` : '';
+  const ends = until ? ` until ${until}` : ` for ${count} occurrence${count === 1 ? '' : 's'}`;
+  return `${every}${on}${ends}`;
+};
+
+export const DEFAULT_RECURRENCE_FORM: RecurrenceFormData = {
+  frequency: 'none',
+  interval: 1,
+  byWeekday: [],
+  ends: 'count',
+  until: '',
+  count: 10
+};
+
+/** The form's repeat controls as a `Recurrence`, or null when the booking does not repeat. */
+export const toRecurrence = (
+  { frequency, interval, byWeekday, ends, until, count }: RecurrenceFormData,
+  exceptions: string[] = []
+): Recurrence | null =>
+  frequency === 'none'
+    ? null
+    : {
+        frequency,
+        interval,
+        byWeekday: frequency === 'weekly' ? byWeekday : [],
+        until: ends === 'until' ? until : null,
+        count: ends === 'count' ? count : null,
+        exceptions
+      };
+
+/** A saved `Recurrence` as the form's repeat controls, for editing a booking; the inverse of `toRecurrence`. */
+export const fromRecurrence = (recurrence: Recurrence | null): RecurrenceFormData =>
+  recurrence
+    ? {
+        frequency: recurrence.frequency,
+        interval: recurrence.interval,
+        byWeekday: recurrence.byWeekday,
+        ends: recurrence.until ? 'until' : 'count',
+        until: recurrence.until ?? '',
+        count: recurrence.count ?? DEFAULT_RECURRENCE_FORM.count
+      }
+    : DEFAULT_RECURRENCE_FORM;
@@ -0,0 +1,79 @@
+import { isDate, rangesOverlap, SCHEDULING, toMinutes, validateTimeRange, WEEKDAY_NAMES, weekdayOf } from './time';
+import type { ClosureKind, OpeningHours, Venue, VenueClosure } from './types';
+
+/** Hours a venue starts with: the standard day from Monday to Saturday, closed on Sundays. */
+export const DEFAULT_OPERATING_HOURS: (OpeningHours | null)[] = [
+  null,
+  ...Array.from({ length: 6 }, () => ({ open: SCHEDULING.dayStart, close: SCHEDULING.dayEnd }))
+];
+
+export const CLOSURE_KINDS: Record<ClosureKind, string> = {
+  blackout: 'Blackout',
+  maintenance: 'Maintenance'
+};
+
+/** The venue's opening hours on a date, or null if it is closed that weekday. */
+export const hoursOn = (venue: Pick<Venue, 'operatingHours'>, date: string) =>
+  venue.operatingHours[weekdayOf(date)] ?? null;
+
+/** Whether the closure takes the venue out of use on `date` at any point in `start`-`end` (minutes). */
+export const closureCovers = (closure: VenueClosure, date: string, start: number, end: number) =>
+  date >= closure.startDate &&
+  date <= closure.endDate &&
+  (closure.startTime === null ||
+    rangesOverlap(start, end, toMinutes(closure.startTime), toMinutes(closure.endTime ?? closure.startTime)));
+
+/** Why `start`-`end` (minutes) on `date` falls outside the venue's opening hours, or null if it does not. */
+export const outsideHours = (venue: Pick<Venue, 'name' | 'operatingHours'>, date: string, start: number, end: number) => {
+  const hours = hoursOn(venue, date);
+  if (!hours) {
+    return `${venue.name} is closed on ${WEEKDAY_NAMES[weekdayOf(date)]}s`;
+  }
+  if (start < toMinutes(hours.open) || end > toMinutes(hours.close)) {
+    return `${venue.name} is open ${hours.open}-${hours.close} on ${WEEKDAY_NAMES[weekdayOf(date)]}s`;
+  }
+  return null;
+};
+
+/** The blackout or maintenance taking the venue out of use on `date` during `start`-`end`, if any. */
+export const closureAt = (venueId: string, closures: VenueClosure[], date: string, start: number, end: number) =>
+  closures.find(closure => closure.venueId === venueId && closureCovers(closure, date, start, end));
+
+export const describeClosure = (closure: VenueClosure) => `${CLOSURE_KINDS[closure.kind]}: ${closure.reason}`;
+
+/** Explains why a week of opening hours cannot be used, or returns null if it can. */
+export const validateOperatingHours = (hours: (OpeningHours | null)[]) => {
+  if (!Array.isArray(hours) || hours.length !== 7) {
+    return 'Give opening hours for each of the seven weekdays.';
+  }
+  for (const [weekday, day] of hours.entries()) {
+    const error = day && validateTimeRange(day.open, day.close);
+    if (error) {
+      return `${WEEKDAY_NAMES[weekday]}: ${error}`;
+    }
+  }
+  return null;
+};
+
+/** Explains why a closure cannot be recorded, or returns null if it can. */
+export const validateClosure = ({ kind, reason, startDate, endDate, startTime, endTime }: Omit<VenueClosure, 'id' | 'venueId' | 'createdBy' | 'createdAt'>) => {
+  if (!Object.keys(CLOSURE_KINDS).includes(kind)) {
+    return 'Choose whether this is a blackout or maintenance.';
+  }
+  if (!reason?.trim()) {
+    return 'Give a reason, e.g. "AC servicing", so requesters know why the venue is unavailable.';
+  }
+  if (!isDate(startDate) || !isDate(endDate) || endDate < startDate) {
+    return 'The closure must end on or after the day it starts.';
+  }
+  if ((startTime === null) !== (endTime === null)) {
+    return 'Give both a start and an end time, or neither for whole days.';
+  }
+  return startTime === null ? null : validateTimeRange(startTime, endTime);
+};
+
+/** Closures of a venue still in effect on or after `from`, soonest first. */
+export const upcomingClosures = (closures: VenueClosure[], venueId: string, from: string) =>
+  closures
+    .filter(closure => closure.venueId === venueId && closure.endDate >= from)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
@@ -0,0 +1,39 @@
+import type { UserAccount } from '../types';
+
+const account = (
+  id: string,
+  username: string,
+  displayName: string,
+  userType: UserAccount['userType'],
+  department: string | null,
+  passwordSalt: string,
+  passwordHash: string
+): UserAccount => ({
+  id,
+  username,
+  displayName,
+  userType,
+  department,
+  passwordHash,
+  passwordSalt,
+  failedLoginAttempts: 0,
+  lockedUntil: null
+});
+
+// Demo sign-ins advertised on the login page; all use the password "password".
+export const createDemoAccounts = (): UserAccount[] => [
+  account('u-faculty', 'faculty', 'Faculty Member', 'faculty', 'cse',
+    'ced4a19556f6248ee241964d2a37ce34', 'b750b6c42239c63f1a2ec31674020ccca01fde409816ea6f03a0d6d9a9748859'),
+  account('u-hod', 'hod', 'Head of Department', 'hod', 'cse',
+    'f3bf6473a9fd254f13ded9960e86e75d', '4a62c9fad88ea3f754f5b7f38d7dcf5c495013d507965a3b9b79c251a303936a'),
+  account('u-dean', 'dean', 'Dean of Academics', 'dean', null,
+    'cb66109a6da32e21bdf73bed1469d77c', '13b49ac0cff1c4a1744ea64c3a0725088f9677bc502b666a12807fbd9baeb9bf'),
+  account('u-coordinator', 'coordinator', 'Club Coordinator', 'club_coordinator', 'cultural-committee',
+    '3ed9abb1d92a45305c35a4acb2eef896', 'ee3426cde5073140fe4cbebe7735f9d4159beb6b95dfe3431f1e62bed93b4b1c'),
+  account('u-facilities', 'facilities', 'Estate Office', 'facilities_manager', null,
+    'ece3cb647e743f133bc38cee36589cea', 'c0ae1409c63d69691994ff30f93f8d606533fe3845b40581721ec62c5c036d0a'),
+  account('u-registrar', 'registrar', 'Registrar', 'registrar', null,
+    'b8383d13768f59cdf8b55d3abc3ee3a5', '9b7077fa64eb5afc7044a79142068f5d4c028af246c81fb88fefeac0548bdf6d'),
+  account('u-admin', 'admin', 'System Administrator', 'admin', null,
+    '8354a9caeeeed6534973b2490e2cf68e', '0f36517a35bcb00d3ff80ee7a6f0a391c1cb54a17c605b127c5dde598d9df739')
+];
@@ -0,0 +1,118 @@
+import type { Repositories, Repository } from './repositories';
+import { migrate, SCHEMA_VERSION, type Database } from './schema';
+import { createDemoAccounts } from './demo-accounts';
+import { createSeedDatabase } from './seed';
+
+/** Reads and writes the whole serialised database as a single document. */
+export interface StorageDriver {
+  read(): string | null;
+  write(contents: string): void;
+}
+
+/** The stored document cannot be read; nothing is overwritten until someone repairs or removes it. */
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+type Collection = {
+  [K in keyof Database]: Database[K] extends { id: string }[] ? K : never;
+}[keyof Database];
+
+export const createLocalStorageDriver = (key: string): StorageDriver => ({
+  read: () => localStorage.getItem(key),
+  write: (contents) => localStorage.setItem(key, contents)
+});
+
+export interface DocumentStoreOptions {
+  /**
+   * Adds the demo accounts, all with the password "password", whenever the
+   * document has no accounts. Only a store kept in one visitor's browser
+   * should ask for them, never a shared one.
+   */
+  demoAccounts?: boolean;
+}
+
+/**
+ * Builds repositories on top of a single JSON document. Every call re-reads the
+ * document so that several tabs (or processes) sharing a driver never work from
+ * a stale copy; legacy documents are migrated and written back on first read.
+ */
+export const createDocumentRepositories = (
+  driver: StorageDriver,
+  { demoAccounts = false }: DocumentStoreOptions = {}
+): Repositories => {
+  const withDemoAccounts = (db: Database): Database =>
+    demoAccounts && db.users.length === 0 ? { ...db, users: createDemoAccounts() } : db;
+
+  const load = (): Database => {
+    const contents = driver.read();
+    if (!contents) {
+      const seeded = withDemoAccounts(createSeedDatabase());
+      driver.write(JSON.stringify(seeded));
+      return seeded;
+    }
+
+    let stored: Parameters<typeof migrate>[0];
+    try {
+      stored = JSON.parse(contents);
+    } catch (error) {
+      throw new StorageError(`The stored data is corrupt (${(error as Error).message}). Restore it from a backup or remove it to start afresh.`);
+    }
+    if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) {
+      throw new StorageError('The stored data is not a database document. Restore it from a backup or remove it to start afresh.');
+    }
+    const migrated = migrate(stored);
+    const db = withDemoAccounts(migrated);
+    if (stored.version !== SCHEMA_VERSION || db !== migrated) {
+      driver.write(JSON.stringify(db));
+    }
+    return db;
+  };
+
+  const update = (change: (db: Database) => Database) => {
+    driver.write(JSON.stringify(change(load())));
+  };
+
+  const collection = <K extends Collection>(name: K) => {
+    type Item = Database[K][number];
+
+    const repository: Repository<Item> = {
+      list: async () => load()[name],
+      get: async (id) => load()[name].find(item => item.id === id),
+      save: async (record) => {
+        update(db => {
+          const items = db[name] as Item[];
+          const exists = items.some(item => item.id === record.id);
+          return {
+            ...db,
+            [name]: exists
+              ? items.map(item => (item.id === record.id ? record : item))
+              : [...items, record]
+          };
+        });
+        return record;
+      },
+      remove: async (id) => {
+        update(db => ({
+          ...db,
+          [name]: (db[name] as Item[]).filter(item => item.id !== id)
+        }));
+      }
+    };
+
+    return repository;
+  };
+
+  return {
+    venues: collection('venues'),
+    bookings: collection('bookings'),
+    users: collection('users'),
+    sessions: collection('sessions'),
+    closures: collection('closures'),
+    academicPeriods: collection('academicPeriods'),
+    notifications: collection('notifications')
+  };
+};
@@ -0,0 +1,43 @@
+/**
+ * Uploaded images, kept apart from the database document so that photos never
+ * weigh on reading or writing it. Images are passed around as data URLs.
+ */
+export interface ImageStore {
+  /** Stores the image under the id, replacing any image already there. */
+  put(id: string, dataUrl: string): Promise<void>;
+  get(id: string): Promise<string | undefined>;
+  remove(id: string): Promise<void>;
+}
+
+const IMAGES = 'images';
+
+/** Keeps images in an IndexedDB database of this browser profile. */
+export const createIndexedDbImageStore = (name: string): ImageStore => {
+  let opening: Promise<IDBDatabase> | null = null;
+  const open = () =>
+    (opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IMAGES);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open();
+    return new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(IMAGES, mode).objectStore(IMAGES));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    put: async (id, dataUrl) => {
+      await run('readwrite', store => store.put(dataUrl, id));
+    },
+    get: (id) => run<string | undefined>('readonly', store => store.get(id)),
+    remove: async (id) => {
+      await run('readwrite', store => store.delete(id));
+    }
+  };
+};
@@ -0,0 +1,26 @@
+import { createDocumentRepositories, createLocalStorageDriver } from './document-store';
+import { createIndexedDbImageStore } from './image-store';
+
+export type {
+  Repositories,
+  Repository,
+  VenueRepository,
+  BookingRepository,
+  UserRepository,
+  SessionRepository,
+  ClosureRepository,
+  AcademicPeriodRepository,
+  NotificationRepository
+} from './repositories';
+export type { StorageDriver } from './document-store';
+export type { ImageStore } from './image-store';
+export { createDocumentRepositories, createLocalStorageDriver } from './document-store';
+export { createIndexedDbImageStore } from './image-store';
+export { SCHEMA_VERSION } from './schema';
+
+const STORAGE_KEY = 'geeta-venue-quest:db';
+
+// Data kept in the browser is the visitor's own demo, so it comes with the demo sign-ins.
+export const repositories = createDocumentRepositories(createLocalStorageDriver(STORAGE_KEY), { demoAccounts: true });
+
+export const images = createIndexedDbImageStore('geeta-venue-quest:images');
@@ -0,0 +1,27 @@
+import type { AcademicPeriod, Booking, Session, UserAccount, UserNotification, Venue, VenueClosure } from '../types';
+
+export interface Repository<T extends { id: string }> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  /** Inserts the record, or replaces the stored record with the same id. */
+  save(record: T): Promise<T>;
+  remove(id: string): Promise<void>;
+}
+
+export type VenueRepository = Repository<Venue>;
+export type BookingRepository = Repository<Booking>;
+export type UserRepository = Repository<UserAccount>;
+export type SessionRepository = Repository<Session>;
+export type ClosureRepository = Repository<VenueClosure>;
+export type AcademicPeriodRepository = Repository<AcademicPeriod>;
+export type NotificationRepository = Repository<UserNotification>;
+
+export interface Repositories {
+  venues: VenueRepository;
+  bookings: BookingRepository;
+  users: UserRepository;
+  sessions: SessionRepository;
+  closures: ClosureRepository;
+  academicPeriods: AcademicPeriodRepository;
+  notifications: NotificationRepository;
+}
@@ -0,0 +1,222 @@
+import type { AcademicPeriod, AmenityId, Booking, Session, UserAccount, UserNotification, Venue, VenueClosure } from '../types';
+import { findAmenityId } from '../amenities';
+import { findBuildingId } from '../campus';
+import { findDepartmentId } from '../departments';
+import { DEFAULT_BUFFERS } from '../availability';
+import { DEFAULT_OPERATING_HOURS } from '../schedule';
+import { APPROVAL_CHAINS } from '../workflow';
+
+/**
+ * Version of the persisted database layout. Bump it whenever the shape of a
+ * stored record changes and register a migration for the new version below.
+ */
+export const SCHEMA_VERSION = 21;
+
+export interface Database {
+  version: number;
+  venues: Venue[];
+  bookings: Booking[];
+  users: UserAccount[];
+  sessions: Session[];
+  closures: VenueClosure[];
+  academicPeriods: AcademicPeriod[];
+  notifications: UserNotification[];
+}
+
+type RawDatabase = Record<string, unknown> & { version?: number };
+type Migration = (db: RawDatabase) => RawDatabase;
+
+// migrations[n] upgrades a database stored at version n - 1 to version n.
+const migrations: Record<number, Migration> = {
+  1: (db) => ({
+    ...db,
+    venues: Array.isArray(db.venues) ? db.venues : [],
+    bookings: Array.isArray(db.bookings) ? db.bookings : []
+  }),
+  // v2: real accounts with hashed passwords, and server-tracked sessions.
+  2: (db) => ({
+    ...db,
+    users: [],
+    sessions: []
+  }),
+  // v3: sessions expire and are referenced from signed tokens, so the old
+  // open-ended sessions are dropped and everyone signs in again.
+  3: (db) => ({
+    ...db,
+    sessions: []
+  }),
+  // v4: wider set of roles, and users carry the department they belong to.
+  4: (db) => ({
+    ...db,
+    users: (db.users as UserAccount[]).map(user => ({ ...user, department: user.department ?? null }))
+  }),
+  // v5: departments become ids from a fixed list, venues may belong to a
+  // department, and bookings can be escalated across departments.
+  5: (db) => ({
+    ...db,
+    venues: (db.venues as Venue[]).map(venue => ({
+      ...venue,
+      department: venue.department ?? (venue.id === '3' && venue.type === 'lab' ? 'cse' : null)
+    })),
+    bookings: (db.bookings as Booking[]).map(booking => ({
+      ...booking,
+      department: findDepartmentId(booking.department) ?? booking.department,
+      escalation: booking.escalation ?? null
+    })),
+    users: (db.users as UserAccount[]).map(user => ({
+      ...user,
+      department: findDepartmentId(user.department) ?? user.department
+    }))
+  }),
+  // v6: multi-stage approvals. Bookings take their venue type's default chain;
+  // decisions made before this version were not recorded per stage.
+  6: (db) => {
+    const venues = (db.venues as Venue[]).map(venue => ({ ...venue, approvalChain: venue.approvalChain ?? null }));
+    return {
+      ...db,
+      venues,
+      bookings: (db.bookings as Booking[]).map(booking => ({
+        ...booking,
+        approvalChain: booking.approvalChain ?? APPROVAL_CHAINS[venues.find(venue => venue.id === booking.venueId)?.type] ?? ['hod'],
+        approvals: booking.approvals ?? []
+      }))
+    };
+  },
+  // v7: notes on stage decisions and a comment thread per booking.
+  7: (db) => ({
+    ...db,
+    bookings: (db.bookings as Booking[]).map(booking => ({
+      ...booking,
+      approvals: booking.approvals.map(approval => ({ ...approval, note: approval.note ?? null })),
+      comments: booking.comments ?? []
+    }))
+  }),
+  // v8: fixed "HH:mm-HH:mm" slot strings become separate start and end times.
+  8: (db) => ({
+    ...db,
+    bookings: (db.bookings as (Booking & { timeSlot?: string })[]).map(({ timeSlot, ...booking }) => {
+      const [startTime, endTime] = (timeSlot ?? '').split('-');
+      return {
+        ...booking,
+        startTime: booking.startTime ?? startTime,
+        endTime: booking.endTime ?? endTime
+      };
+    })
+  }),
+  // v9: bookings can span several days; existing ones cover just their own.
+  9: (db) => ({
+    ...db,
+    bookings: (db.bookings as Booking[]).map(booking => ({ ...booking, endDate: booking.endDate ?? booking.date }))
+  }),
+  // v10: recurring series, and occurrences detached from them.
+  10: (db) => ({
+    ...db,
+    bookings: (db.bookings as Booking[]).map(booking => ({
+      ...booking,
+      recurrence: booking.recurrence ?? null,
+      seriesId: booking.seriesId ?? null
+    }))
+  }),
+  // v11: setup and teardown buffers per venue, copied onto each booking.
+  11: (db) => {
+    const venues = (db.venues as Venue[]).map(venue => ({
+      ...venue,
+      buffers: venue.buffers ?? DEFAULT_BUFFERS[venue.type] ?? { setupMinutes: 0, teardownMinutes: 0 }
+    }));
+    return {
+      ...db,
+      venues,
+      bookings: (db.bookings as Booking[]).map(booking => ({
+        ...booking,
+        buffers: booking.buffers ?? venues.find(venue => venue.id === booking.venueId)?.buffers ?? { setupMinutes: 0, teardownMinutes: 0 }
+      }))
+    };
+  },
+  // v12: opening hours per weekday, and blackout and maintenance closures.
+  12: (db) => ({
+    ...db,
+    venues: (db.venues as Venue[]).map(venue => ({ ...venue, operatingHours: venue.operatingHours ?? DEFAULT_OPERATING_HOURS })),
+    closures: Array.isArray(db.closures) ? db.closures : []
+  }),
+  // v13: the academic calendar, imported by the registrar.
+  13: (db) => ({
+    ...db,
+    academicPeriods: Array.isArray(db.academicPeriods) ? db.academicPeriods : []
+  }),
+  // v14: waitlisted requests, and notifications for their requesters.
+  14: (db) => ({
+    ...db,
+    bookings: (db.bookings as Booking[]).map(booking => ({ ...booking, waitlistedAt: booking.waitlistedAt ?? null })),
+    notifications: Array.isArray(db.notifications) ? db.notifications : []
+  }),
+  // v15: tentative holds that lapse unless confirmed.
+  15: (db) => ({
+    ...db,
+    bookings: (db.bookings as Booking[]).map(booking => ({ ...booking, heldUntil: booking.heldUntil ?? null }))
+  }),
+  // v16: a history of edits made to each booking.
+  16: (db) => ({
+    ...db,
+    bookings: (db.bookings as Booking[]).map(booking => ({ ...booking, history: booking.history ?? [] }))
+  }),
+  // v17: bookings are cancelled rather than deleted.
+  17: (db) => ({
+    ...db,
+    bookings: (db.bookings as Booking[]).map(booking => ({ ...booking, cancellation: booking.cancellation ?? null }))
+  }),
+  // v18: venues can be deactivated and archived from the admin console.
+  18: (db) => ({
+    ...db,
+    venues: (db.venues as Venue[]).map(venue => ({ ...venue, status: venue.status ?? 'active' }))
+  }),
+  // v19: uploaded photos and floor plans, kept in the image store, replace the
+  // placeholder image URL.
+  19: (db) => ({
+    ...db,
+    venues: (db.venues as (Venue & { image?: string })[]).map(({ image, ...venue }) => ({
+      ...venue,
+      photos: venue.photos ?? [],
+      floorPlan: venue.floorPlan ?? null
+    }))
+  }),
+  // v20: free-text amenities become catalog entries with quantities. Names
+  // the catalog does not recognise are dropped, and counts start at 1.
+  20: (db) => ({
+    ...db,
+    venues: (db.venues as (Omit<Venue, 'amenities'> & { amenities: unknown[] })[]).map(venue => {
+      const ids = venue.amenities.map(amenity => (typeof amenity === 'string' ? findAmenityId(amenity) : null));
+      return {
+        ...venue,
+        amenities: [...new Set(ids.filter((id): id is AmenityId => id !== null))].map(id => ({ id, quantity: 1 }))
+      };
+    })
+  }),
+  // v21: locations name a building, floor and room instead of free text.
+  // Unrecognised locations keep their text as the building until edited.
+  21: (db) => ({
+    ...db,
+    venues: (db.venues as (Omit<Venue, 'location'> & { location: Venue['location'] | string })[]).map(venue => ({
+      ...venue,
+      location: typeof venue.location === 'string'
+        ? { buildingId: findBuildingId(venue.location) ?? venue.location, floor: null, room: '' }
+        : venue.location
+    }))
+  })
+};
+
+export const migrate = (raw: RawDatabase): Database => {
+  let version = typeof raw.version === 'number' ? raw.version : 0;
+
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Stored data uses schema v${version}, but this build only understands up to v${SCHEMA_VERSION}.`);
+  }
+
+  let db = raw;
+  while (version < SCHEMA_VERSION) {
+    version += 1;
+    const step = migrations[version];
+    db = { ...(step ? step(db) : db), version };
+  }
+
+  return db as unknown as Database;
+};
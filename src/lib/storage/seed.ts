@@ -0,0 +1,207 @@
+import { DEFAULT_OPERATING_HOURS } from '../schedule';
+import type { Database } from './schema';
+import { SCHEMA_VERSION } from './schema';
+
+// Initial contents written the first time the app runs against empty storage.
+// It has no accounts; see `DocumentStoreOptions.demoAccounts`.
+export const createSeedDatabase = (): Database => ({
+  version: SCHEMA_VERSION,
+  venues: [
+    {
+      id: '1',
+      name: 'Main Auditorium',
+      capacity: 500,
+      location: { buildingId: 'academic-a', floor: 0, room: '' },
+      amenities: [
+        { id: 'projector', quantity: 2 },
+        { id: 'sound-system', quantity: 1 },
+        { id: 'microphone', quantity: 10 },
+        { id: 'air-conditioning', quantity: 1 },
+        { id: 'stage', quantity: 1 },
+        { id: 'wheelchair-access', quantity: 1 }
+      ],
+      photos: [],
+      floorPlan: null,
+      type: 'auditorium',
+      status: 'active',
+      department: null,
+      approvalChain: null,
+      buffers: { setupMinutes: 60, teardownMinutes: 60 },
+      operatingHours: DEFAULT_OPERATING_HOURS
+    },
+    {
+      id: '2',
+      name: 'Conference Hall',
+      capacity: 50,
+      location: { buildingId: 'admin', floor: 1, room: '' },
+      amenities: [
+        { id: 'projector', quantity: 1 },
+        { id: 'whiteboard', quantity: 1 },
+        { id: 'air-conditioning', quantity: 1 },
+        { id: 'wifi', quantity: 1 },
+        { id: 'video-conferencing', quantity: 1 },
+        { id: 'microphone', quantity: 2 }
+      ],
+      photos: [],
+      floorPlan: null,
+      type: 'conference',
+      status: 'active',
+      department: null,
+      approvalChain: null,
+      buffers: { setupMinutes: 0, teardownMinutes: 30 },
+      operatingHours: DEFAULT_OPERATING_HOURS
+    },
+    {
+      id: '3',
+      name: 'Computer Lab 1',
+      capacity: 40,
+      location: { buildingId: 'it', floor: 2, room: '204' },
+      amenities: [
+        { id: 'computers', quantity: 40 },
+        { id: 'projector', quantity: 1 },
+        { id: 'air-conditioning', quantity: 1 },
+        { id: 'wifi', quantity: 1 }
+      ],
+      photos: [],
+      floorPlan: null,
+      type: 'lab',
+      status: 'active',
+      department: 'cse',
+      approvalChain: null,
+      buffers: { setupMinutes: 0, teardownMinutes: 0 },
+      operatingHours: DEFAULT_OPERATING_HOURS
+    },
+    {
+      id: '4',
+      name: 'Classroom 101',
+      capacity: 60,
+      location: { buildingId: 'academic-b', floor: 1, room: '101' },
+      amenities: [
+        { id: 'projector', quantity: 1 },
+        { id: 'whiteboard', quantity: 2 },
+        { id: 'air-conditioning', quantity: 1 }
+      ],
+      photos: [],
+      floorPlan: null,
+      type: 'classroom',
+      status: 'active',
+      department: null,
+      approvalChain: null,
+      buffers: { setupMinutes: 0, teardownMinutes: 0 },
+      operatingHours: DEFAULT_OPERATING_HOURS
+    },
+    {
+      id: '5',
+      name: 'Sports Ground',
+      capacity: 200,
+      location: { buildingId: 'sports-complex', floor: null, room: '' },
+      amenities: [
+        { id: 'open-air', quantity: 1 },
+        { id: 'floodlights', quantity: 8 },
+        { id: 'seating', quantity: 200 }
+      ],
+      photos: [],
+      floorPlan: null,
+      type: 'outdoor',
+      status: 'active',
+      department: null,
+      approvalChain: null,
+      buffers: { setupMinutes: 60, teardownMinutes: 60 },
+      operatingHours: Array.from({ length: 7 }, () => ({ open: '07:00', close: '19:00' }))
+    },
+    {
+      id: '6',
+      name: 'Seminar Hall',
+      capacity: 100,
+      location: { buildingId: 'academic-c', floor: 0, room: '' },
+      amenities: [
+        { id: 'projector', quantity: 1 },
+        { id: 'sound-system', quantity: 1 },
+        { id: 'microphone', quantity: 4 },
+        { id: 'air-conditioning', quantity: 1 },
+        { id: 'stage', quantity: 1 }
+      ],
+      photos: [],
+      floorPlan: null,
+      type: 'auditorium',
+      status: 'active',
+      department: null,
+      approvalChain: null,
+      buffers: { setupMinutes: 60, teardownMinutes: 60 },
+      operatingHours: DEFAULT_OPERATING_HOURS
+    }
+  ],
+  bookings: [
+    {
+      id: '1',
+      venueId: '1',
+      venueName: 'Main Auditorium',
+      date: '2024-01-15',
+      endDate: '2024-01-15',
+      startTime: '09:00',
+      endTime: '11:00',
+      buffers: { setupMinutes: 60, teardownMinutes: 60 },
+      purpose: 'Annual Function',
+      bookedBy: 'Dr. Smith',
+      status: 'approved',
+      attendees: 300,
+      requirements: 'Stage decoration, sound system',
+      contactEmail: 'dr.smith@geeta.edu',
+      department: 'cultural-committee',
+      escalation: null,
+      approvalChain: ['hod', 'dean', 'estate'],
+      approvals: [
+        { stage: 'hod', decision: 'approved', decidedBy: 'hod', decidedAt: '2024-01-08T10:00:00.000Z', note: null },
+        { stage: 'dean', decision: 'approved', decidedBy: 'dean', decidedAt: '2024-01-09T10:00:00.000Z', note: null },
+        { stage: 'estate', decision: 'approved', decidedBy: 'facilities', decidedAt: '2024-01-10T10:00:00.000Z', note: 'Stage must be cleared by 13:00 for the afternoon rehearsal.' }
+      ],
+      comments: [],
+      recurrence: null,
+      seriesId: null,
+      waitlistedAt: null,
+      heldUntil: null,
+      history: [],
+      cancellation: null
+    },
+    {
+      id: '2',
+      venueId: '2',
+      venueName: 'Conference Hall',
+      date: '2024-01-16',
+      endDate: '2024-01-16',
+      startTime: '14:00',
+      endTime: '16:00',
+      buffers: { setupMinutes: 0, teardownMinutes: 30 },
+      purpose: 'Department Meeting',
+      bookedBy: 'Prof. Johnson',
+      status: 'pending',
+      attendees: 25,
+      requirements: 'Projector, refreshments',
+      contactEmail: 'prof.johnson@geeta.edu',
+      department: 'cse',
+      escalation: null,
+      approvalChain: ['hod'],
+      approvals: [],
+      comments: [],
+      recurrence: null,
+      seriesId: null,
+      waitlistedAt: null,
+      heldUntil: null,
+      history: [],
+      cancellation: null
+    }
+  ],
+  users: [],
+  sessions: [],
+  closures: [],
+  academicPeriods: [
+    { id: 'odd-2026', kind: 'semester', name: 'Odd Semester 2026', startDate: '2026-07-20', endDate: '2026-12-05' },
+    { id: 'odd-2026-midsem', kind: 'midsem_exams', name: 'Mid-semester Exams', startDate: '2026-09-21', endDate: '2026-09-26' },
+    { id: 'gandhi-jayanti-2026', kind: 'holiday', name: 'Gandhi Jayanti', startDate: '2026-10-02', endDate: '2026-10-02' },
+    { id: 'diwali-2026', kind: 'holiday', name: 'Diwali', startDate: '2026-11-08', endDate: '2026-11-08' },
+    { id: 'odd-2026-endsem', kind: 'endsem_exams', name: 'End-semester Exams', startDate: '2026-11-23', endDate: '2026-12-05' },
+    { id: 'winter-2026', kind: 'vacation', name: 'Winter Vacation', startDate: '2026-12-07', endDate: '2027-01-02' },
+    { id: 'republic-day-2027', kind: 'holiday', name: 'Republic Day', startDate: '2027-01-26', endDate: '2027-01-26' }
+  ],
+  notifications: []
+});
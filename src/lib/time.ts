@@ -0,0 +1,110 @@
+/**
+ * Default opening hours for a venue, and the smallest step a booking can
+ * start, end or last. Each venue sets its own hours per weekday.
+ */
+export const SCHEDULING = {
+  dayStart: '09:00',
+  dayEnd: '18:00',
+  granularityMinutes: 30,
+  /** Longest run of consecutive days a single booking may cover. */
+  maxEventDays: 14
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isTime = (value: string) => typeof value === 'string' && TIME_PATTERN.test(value);
+
+/** Minutes since midnight for an "HH:mm" string. */
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const fromMinutes = (total: number) =>
+  `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+
+export const formatTimeRange = (startTime: string, endTime: string) => `${startTime}-${endTime}`;
+
+/** Half-open ranges: a booking ending at 10:00 does not clash with one starting at 10:00. */
+export const rangesOverlap = (startA: number, endA: number, startB: number, endB: number) =>
+  startA < endB && startB < endA;
+
+/** Every granularity step between `from` and `to`, as [start, end] pairs. */
+export const timeSteps = (from = SCHEDULING.dayStart, to = SCHEDULING.dayEnd, step = SCHEDULING.granularityMinutes) => {
+  const steps: { start: string; end: string }[] = [];
+  for (let minute = toMinutes(from); minute + step <= toMinutes(to); minute += step) {
+    steps.push({ start: fromMinutes(minute), end: fromMinutes(minute + step) });
+  }
+  return steps;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isDate = (value: string) => typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+/** Shifts a "YYYY-MM-DD" date by whole days, independent of the local time zone. */
+export const addDays = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+/** "YYYY-MM-DD" for an instant, in the local time zone like the booking times themselves. */
+export const localDate = (instant = new Date()) =>
+  [instant.getFullYear(), instant.getMonth() + 1, instant.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+
+/** Whole days from `from` to `to`; negative if `to` is earlier. */
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+/** Every date from `startDate` to `endDate`, both inclusive. */
+export const datesBetween = (startDate: string, endDate: string) => {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** 0 = Sunday, as with `Date.getDay`. */
+export const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+export const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+export const formatDateRange = (startDate: string, endDate: string) =>
+  startDate === endDate ? formatDate(startDate) : `${formatDate(startDate)} – ${formatDate(endDate)}`;
+
+/** Explains why a first/last day pair cannot be booked, or returns null if it can. */
+export const validateDateRange = (startDate: string, endDate: string) => {
+  if (!isDate(startDate) || !isDate(endDate)) {
+    return 'Dates must be given as YYYY-MM-DD.';
+  }
+  if (endDate < startDate) {
+    return 'The last day must not be before the first day.';
+  }
+  if (datesBetween(startDate, endDate).length > SCHEDULING.maxEventDays) {
+    return `A single booking can cover at most ${SCHEDULING.maxEventDays} days.`;
+  }
+  return null;
+};
+
+/** Explains why a start/end pair cannot be booked, or returns null if it can. */
+export const validateTimeRange = (startTime: string, endTime: string) => {
+  if (!isTime(startTime) || !isTime(endTime)) {
+    return 'Times must be given as HH:mm.';
+  }
+
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  const step = SCHEDULING.granularityMinutes;
+
+  if (end <= start) {
+    return 'The end time must be after the start time.';
+  }
+  if (start % step !== 0 || end % step !== 0) {
+    return `Start and end times must be on ${step}-minute boundaries.`;
+  }
+  return null;
+};
@@ -0,0 +1,331 @@
+export type VenueType = 'classroom' | 'auditorium' | 'lab' | 'conference' | 'outdoor';
+
+/**
+ * `held` is a tentative hold that keeps its time until `heldUntil` and lapses
+ * to `expired` unless confirmed; `waitlisted` requests wait for taken time and
+ * do not hold it until promoted to `pending`. `cancelled` bookings keep their
+ * `cancellation` and can be restored to the status they had.
+ */
+export type BookingStatus = 'pending' | 'approved' | 'rejected' | 'waitlisted' | 'held' | 'expired' | 'cancelled';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/** RRULE-style repeat pattern; a booking with one is a series of occurrences. */
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  /** Repeat every `interval` days, weeks or months. */
+  interval: number;
+  /** Weekdays (0 = Sunday) for weekly patterns; empty repeats on the first day's weekday. */
+  byWeekday: number[];
+  /** Last possible start date, inclusive. Exactly one of `until` and `count` is set. */
+  until: string | null;
+  count: number | null;
+  /** Start dates of occurrences that were cancelled or moved out of the series. */
+  exceptions: string[];
+}
+
+/** A step in a venue's approval chain, see `APPROVAL_STAGES`. */
+export type ApprovalStage = 'hod' | 'dean' | 'estate';
+
+export interface Venue {
+  id: string;
+  name: string;
+  capacity: number;
+  location: VenueLocation;
+  amenities: VenueAmenity[];
+  /** Shown in order on the venue card and in the booking dialog. */
+  photos: VenuePhoto[];
+  floorPlan: VenuePhoto | null;
+  type: VenueType;
+  status: VenueStatus;
+  /** Department that owns the venue; null for centrally managed venues. */
+  department: string | null;
+  /** Overrides the approval chain for the venue's type; null uses the default. */
+  approvalChain: ApprovalStage[] | null;
+  /** Time held around every booking for setup and cleanup, unless a booking overrides it. */
+  buffers: BufferTimes;
+  /** Indexed by weekday, 0 = Sunday; null on days the venue is closed. */
+  operatingHours: (OpeningHours | null)[];
+}
+
+/** Where a venue is on campus; the building's campus comes from `BUILDINGS`. */
+export interface VenueLocation {
+  buildingId: string;
+  /** 0 is the ground floor; null for grounds and other venues outside a building's floors. */
+  floor: number | null;
+  /** Room number within the building, e.g. "101"; empty for halls known by the venue's name. */
+  room: string;
+}
+
+export type AmenityId =
+  | 'projector'
+  | 'display'
+  | 'sound-system'
+  | 'microphone'
+  | 'video-conferencing'
+  | 'computers'
+  | 'wifi'
+  | 'power-outlets'
+  | 'whiteboard'
+  | 'stage'
+  | 'seating'
+  | 'air-conditioning'
+  | 'floodlights'
+  | 'open-air'
+  | 'wheelchair-access'
+  | 'hearing-loop';
+
+export type AmenityCategory = 'av' | 'computing' | 'furniture' | 'environment' | 'accessibility';
+
+/** An amenity from the catalog in `AMENITIES`; `quantity` is 1 for amenities that are not counted. */
+export interface VenueAmenity {
+  id: AmenityId;
+  quantity: number;
+}
+
+/** An uploaded image and a smaller copy for cards and lists, both held in the image store by id. */
+export interface VenuePhoto {
+  id: string;
+  imageId: string;
+  thumbnailId: string;
+  caption: string;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+/**
+ * `inactive` venues take no new bookings until reactivated; `archived` venues
+ * are retired and kept only so past bookings still resolve.
+ */
+export type VenueStatus = 'active' | 'inactive' | 'archived';
+
+export interface OpeningHours {
+  /** "HH:mm" */
+  open: string;
+  close: string;
+}
+
+export type ClosureKind = 'blackout' | 'maintenance';
+
+/** A period facilities staff have taken a venue out of use, e.g. for AC servicing. */
+export interface VenueClosure {
+  id: string;
+  venueId: string;
+  kind: ClosureKind;
+  reason: string;
+  startDate: string;
+  endDate: string;
+  /** Times the closure applies on each day; both null for whole days. */
+  startTime: string | null;
+  endTime: string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface BufferTimes {
+  setupMinutes: number;
+  teardownMinutes: number;
+}
+
+export interface Booking {
+  id: string;
+  venueId: string;
+  venueName: string;
+  /** First day, "YYYY-MM-DD". */
+  date: string;
+  /** Last day, equal to `date` for single-day bookings. The times below apply on every day. */
+  endDate: string;
+  /** "HH:mm", on the scheduling granularity; the booking ends at (not after) `endTime`. */
+  startTime: string;
+  endTime: string;
+  /** Held before and after `startTime`-`endTime`; the venue's buffers unless overridden when booking. */
+  buffers: BufferTimes;
+  purpose: string;
+  bookedBy: string;
+  status: BookingStatus;
+  attendees: number;
+  requirements: string;
+  contactEmail: string;
+  /** Id of the requesting department, see `DEPARTMENTS`. */
+  department: string;
+  escalation: Escalation | null;
+  /** Stages this request must pass, fixed when the request is made. */
+  approvalChain: ApprovalStage[];
+  approvals: StageDecision[];
+  /** Discussion between the requester and the approvers. */
+  comments: BookingComment[];
+  /** Makes the booking a series repeating from `date`; null for one-off bookings. */
+  recurrence: Recurrence | null;
+  /** For an occurrence edited on its own, the series it was taken out of. */
+  seriesId: string | null;
+  /** When the request joined the waitlist; the queue is first come, first served. Null once it holds its time. */
+  waitlistedAt: string | null;
+  /** When a tentative hold lapses if not confirmed; null for every other status. */
+  heldUntil: string | null;
+  /** Edits made after the request was submitted, oldest first. */
+  history: BookingChange[];
+  /** Set while the booking is cancelled; cancelled bookings are kept for reporting. */
+  cancellation: Cancellation | null;
+}
+
+export interface Cancellation {
+  cancelledBy: string;
+  cancelledAt: string;
+  reason: string;
+  /** The status the booking goes back to if the cancellation is undone. */
+  previousStatus: BookingStatus;
+}
+
+/** One field of a booking as it read before and after an edit, formatted for display. */
+export interface FieldChange {
+  field:
+    | 'venueId'
+    | 'date'
+    | 'endDate'
+    | 'startTime'
+    | 'endTime'
+    | 'recurrence'
+    | 'buffers'
+    | 'attendees'
+    | 'purpose'
+    | 'requirements'
+    | 'contactEmail'
+    | 'department';
+  from: string;
+  to: string;
+}
+
+/** An edit to a booking; `reapproval` is set when it sent an approved or pending request back to the first stage. */
+export interface BookingChange {
+  id: string;
+  changedBy: string;
+  changedAt: string;
+  changes: FieldChange[];
+  reapproval: boolean;
+}
+
+/** A message for one user, e.g. that their waitlisted request was promoted. */
+export interface UserNotification {
+  id: string;
+  username: string;
+  /** The booking the message is about, if any. */
+  bookingId: string | null;
+  message: string;
+  createdAt: string;
+  read: boolean;
+}
+
+export interface StageDecision {
+  stage: ApprovalStage;
+  decision: 'approved' | 'rejected';
+  decidedBy: string;
+  decidedAt: string;
+  /** Required reason for a rejection, or optional conditions attached to an approval. */
+  note: string | null;
+}
+
+export interface BookingComment {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+/**
+ * Set when the requesting department's HOD forwards a request for a venue that
+ * another department owns; the owning department's HOD then decides it.
+ */
+export interface Escalation {
+  fromDepartment: string;
+  toDepartment: string;
+  escalatedBy: string;
+  escalatedAt: string;
+}
+
+export type AcademicPeriodKind = 'semester' | 'midsem_exams' | 'endsem_exams' | 'vacation' | 'holiday';
+
+/** An entry in the academic calendar, e.g. a semester, an exam fortnight or a gazetted holiday. */
+export interface AcademicPeriod {
+  id: string;
+  kind: AcademicPeriodKind;
+  name: string;
+  startDate: string;
+  /** Inclusive; equal to `startDate` for single-day entries such as holidays. */
+  endDate: string;
+}
+
+export interface BookingFormData {
+  date: string;
+  /** Blank for single-day bookings. */
+  endDate: string;
+  /** Blank until a range is picked on the availability grid. */
+  startTime: string;
+  endTime: string;
+  purpose: string;
+  attendees: number;
+  requirements: string;
+  contactEmail: string;
+  department: string;
+  recurrence: RecurrenceFormData;
+  buffers: BufferTimes;
+  /** Joins the waitlist if the picked time is already taken. */
+  waitlist: boolean;
+  /** Places a tentative hold instead of a full request. */
+  hold: boolean;
+}
+
+/** The venue form in the admin console. */
+export interface VenueFormData {
+  name: string;
+  type: VenueType;
+  capacity: number;
+  location: VenueLocation;
+  amenities: VenueAmenity[];
+  /** A department id, or `CENTRALLY_MANAGED` for venues no department owns. */
+  department: string;
+}
+
+/** The repeat controls in the booking form, turned into a `Recurrence` on submit. */
+export interface RecurrenceFormData {
+  frequency: RecurrenceFrequency | 'none';
+  interval: number;
+  byWeekday: number[];
+  ends: 'until' | 'count';
+  until: string;
+  count: number;
+}
+
+export type UserType =
+  | 'faculty'
+  | 'club_coordinator'
+  | 'hod'
+  | 'dean'
+  | 'facilities_manager'
+  | 'registrar'
+  | 'admin';
+
+/** The public view of an account, safe to hand to the UI. */
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  userType: UserType;
+  /** Id of the user's department; limits department-scoped permissions. */
+  department: string | null;
+}
+
+export interface UserAccount extends User {
+  passwordHash: string;
+  passwordSalt: string;
+  failedLoginAttempts: number;
+  /** ISO timestamp until which sign-in is refused after too many failures. */
+  lockedUntil: string | null;
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  createdAt: string;
+  /** Pushed forward each time the session's token is refreshed. */
+  expiresAt: string;
+}
@@ -0,0 +1,27 @@
+/** Photos are downscaled before upload and kept to a handful per venue. */
+export const MAX_PHOTOS_PER_VENUE = 8;
+
+/** Longest side, in pixels, of the stored image and of its thumbnail. */
+export const PHOTO_MAX_DIMENSION = 1024;
+export const THUMBNAIL_MAX_DIMENSION = 480;
+
+/** Upper bound on a stored data URL; a downscaled JPEG is well under this. */
+export const MAX_PHOTO_DATA_URL_LENGTH = 500_000;
+
+export const MAX_CAPTION_LENGTH = 80;
+
+const IMAGE_DATA_URL = /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+=*$/;
+
+/** Explains why an uploaded photo cannot be stored, or returns null if it can. */
+export const validatePhoto = ({ src, thumbnail, caption }: { src: string; thumbnail: string; caption: string }) => {
+  if (typeof src !== 'string' || typeof thumbnail !== 'string' || !IMAGE_DATA_URL.test(src) || !IMAGE_DATA_URL.test(thumbnail)) {
+    return 'Upload a JPEG, PNG or WebP image.';
+  }
+  if (src.length > MAX_PHOTO_DATA_URL_LENGTH || thumbnail.length > src.length) {
+    return 'This image is too large; try a smaller one.';
+  }
+  if ((caption ?? '').length > MAX_CAPTION_LENGTH) {
+    return `Keep the caption to ${MAX_CAPTION_LENGTH} characters.`;
+  }
+  return null;
+};
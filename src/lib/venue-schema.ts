@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { AMENITIES, AMENITY_IDS, MAX_AMENITY_QUANTITY } from './amenities';
+import { BUILDINGS, findBuilding } from './campus';
+import { DEPARTMENTS } from './departments';
+import type { VenueInput } from './api/types';
+import type { AmenityId, VenueFormData, VenueType } from './types';
+
+export const VENUE_TYPE_LABELS: Record<VenueType, string> = {
+  classroom: 'Classroom',
+  auditorium: 'Auditorium',
+  lab: 'Laboratory',
+  conference: 'Conference Room',
+  outdoor: 'Outdoor'
+};
+
+export const MAX_VENUE_CAPACITY = 5000;
+
+const venueTypes = Object.keys(VENUE_TYPE_LABELS) as [VenueType, ...VenueType[]];
+const amenityIds = AMENITY_IDS as [AmenityId, ...AmenityId[]];
+const buildingIds = BUILDINGS.map(building => building.id) as [string, ...string[]];
+const departmentIds = DEPARTMENTS.map(department => department.id) as [string, ...string[]];
+
+/**
+ * The details facilities staff maintain for a venue. The admin console
+ * resolves with this schema and the service parses every create and update
+ * with it; name uniqueness is checked by the service alone.
+ */
+export const venueSchema = z.object({
+  name: z.string().trim().min(3, 'Give the venue a name of at least 3 characters.').max(80, 'Keep the name to 80 characters.'),
+  type: z.enum(venueTypes, { errorMap: () => ({ message: 'Select the type of venue.' }) }),
+  capacity: z
+    .number({ invalid_type_error: 'Enter the capacity.' })
+    .int('Enter a whole number of people.')
+    .min(1, 'A venue must hold at least one person.')
+    .max(MAX_VENUE_CAPACITY, `Capacity cannot exceed ${MAX_VENUE_CAPACITY}.`),
+  location: z
+    .object({
+      buildingId: z.enum(buildingIds, { errorMap: () => ({ message: 'Select the building the venue is in.' }) }),
+      floor: z.number().int().min(0).nullable(),
+      room: z.string().trim().max(20, 'Keep the room number to 20 characters.')
+    })
+    .refine(({ buildingId, floor }) => floor === null || floor <= (findBuilding(buildingId)?.floors ?? 0), {
+      message: 'That building does not have that floor.',
+      path: ['floor']
+    }),
+  amenities: z
+    .array(
+      z
+        .object({
+          id: z.enum(amenityIds, { errorMap: () => ({ message: 'Choose amenities from the catalog.' }) }),
+          quantity: z
+            .number({ invalid_type_error: 'Enter how many the venue has.' })
+            .int('Enter a whole number of each amenity.')
+            .min(1, 'Each amenity needs a quantity of at least 1.')
+            .max(MAX_AMENITY_QUANTITY, `Quantities cannot exceed ${MAX_AMENITY_QUANTITY}.`)
+        })
+        .refine(({ id, quantity }) => AMENITIES[id].countable || quantity === 1, {
+          message: 'Only countable amenities take a quantity.'
+        })
+    )
+    .refine(amenities => new Set(amenities.map(amenity => amenity.id)).size === amenities.length, {
+      message: 'Each amenity should be listed once.'
+    }),
+  /** Null for centrally managed venues. */
+  department: z.enum(departmentIds, { errorMap: () => ({ message: 'Select a department.' }) }).nullable()
+});
+
+export type VenueDetails = z.infer<typeof venueSchema>;
+
+/** The department choice in the venue form for venues no department owns. */
+export const CENTRALLY_MANAGED = 'central';
+
+/** The admin console's venue form as a create or update request. */
+export const toVenueInput = ({ name, type, capacity, location, amenities, department }: VenueFormData): VenueInput => ({
+  name,
+  type,
+  capacity,
+  location,
+  amenities,
+  department: department === CENTRALLY_MANAGED ? null : department
+});
+
+/** The shared rules, applied to the form's department choice. */
+export const venueFormSchema = venueSchema.extend({
+  department: z.string().min(1, 'Select a department.')
+});
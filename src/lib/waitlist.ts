@@ -0,0 +1,14 @@
+import { requestsOverlap } from './availability';
+import type { Booking } from './types';
+
+/** Requests waiting for time at a venue, longest-waiting first. */
+export const waitlistAt = (bookings: Booking[], venueId: string) =>
+  bookings
+    .filter(booking => booking.status === 'waitlisted' && booking.venueId === venueId)
+    .sort((a, b) => a.waitlistedAt.localeCompare(b.waitlistedAt));
+
+/** One-based place in the queue, counting only earlier requests for overlapping time. */
+export const waitlistPosition = (bookings: Booking[], booking: Booking) =>
+  1 + waitlistAt(bookings, booking.venueId)
+    .filter(other => other.waitlistedAt < booking.waitlistedAt && requestsOverlap(other, booking))
+    .length;
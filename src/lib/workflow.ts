@@ -0,0 +1,74 @@
+import type { ApprovalStage, Booking, UserType, Venue, VenueType } from './types';
+
+export interface StageDefinition {
+  label: string;
+  /** Roles that may decide this stage. */
+  approvers: UserType[];
+}
+
+export const APPROVAL_STAGES: Record<ApprovalStage, StageDefinition> = {
+  hod: { label: 'HOD', approvers: ['hod', 'registrar', 'admin'] },
+  dean: { label: 'Dean', approvers: ['dean', 'registrar', 'admin'] },
+  estate: { label: 'Estate Office', approvers: ['facilities_manager', 'admin'] }
+};
+
+/** Default chain per venue type; a venue can override it with `approvalChain`. */
+export const APPROVAL_CHAINS: Record<VenueType, ApprovalStage[]> = {
+  classroom: ['hod'],
+  lab: ['hod'],
+  conference: ['hod'],
+  auditorium: ['hod', 'dean', 'estate'],
+  outdoor: ['hod', 'dean', 'estate']
+};
+
+export const approvalChainFor = (venue: Pick<Venue, 'type' | 'approvalChain'>) =>
+  venue.approvalChain?.length ? venue.approvalChain : APPROVAL_CHAINS[venue.type];
+
+/** The stage a pending booking is waiting on, or null once it has been decided. */
+export const currentStage = (booking: Booking): ApprovalStage | null => {
+  if (booking.status !== 'pending') return null;
+  return booking.approvalChain.find(stage => !booking.approvals.some(approval => approval.stage === stage)) ?? null;
+};
+
+/** One-based position of the current stage, for "stage 2 of 3" style labels. */
+export const stageProgress = (booking: Booking) => {
+  const stage = currentStage(booking);
+  return {
+    stage,
+    position: stage ? booking.approvalChain.indexOf(stage) + 1 : booking.approvalChain.length,
+    total: booking.approvalChain.length
+  };
+};
+
+/**
+ * Records a decision on the current stage. A rejection ends the workflow; an
+ * approval moves the booking to the next stage, or approves it after the last.
+ */
+export const recordDecision = (
+  booking: Booking,
+  decision: 'approved' | 'rejected',
+  decidedBy: string,
+  note: string | null = null,
+  decidedAt = new Date().toISOString()
+): Booking => {
+  const stage = currentStage(booking);
+  if (!stage) return booking;
+
+  const approvals = [...booking.approvals, { stage, decision, decidedBy, decidedAt, note }];
+  const complete = booking.approvalChain.every(step => approvals.some(approval => approval.stage === step));
+
+  return {
+    ...booking,
+    approvals,
+    status: decision === 'rejected' ? 'rejected' : complete ? 'approved' : 'pending'
+  };
+};
+
+/** Sends a changed booking back to the start of its venue's approval chain. */
+export const restartApproval = (booking: Booking, venue: Pick<Venue, 'type' | 'approvalChain'>): Booking => ({
+  ...booking,
+  status: 'pending',
+  escalation: null,
+  approvalChain: approvalChainFor(venue),
+  approvals: []
+});
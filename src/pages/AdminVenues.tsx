@@ -0,0 +1,7 @@
+import VenueAdminConsole from '@/components/VenueAdminConsole';
+
+const AdminVenues = () => {
+  return <VenueAdminConsole />;
+};
+
+export default AdminVenues;
@@ -4,14 +4,23 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Building2, Lock, User } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Building2, Lock, User } from 'lucide-react';
+import { useLocation, useNavigate, type Location } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { hasDemoAccounts } from '@/lib/api';
 
 const Login = () => {
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
   const [formData, setFormData] = useState({
     username: '',
     password: ''
   });
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -24,17 +33,18 @@ const Login = () => {
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
+    setError(null);
     
-    // Simulate API call
-    setTimeout(() => {
-      // Store authentication status
-      localStorage.setItem('isAuthenticated', 'true');
-      localStorage.setItem('userType', formData.username.toLowerCase().includes('hod') ? 'hod' : 'faculty');
-      localStorage.setItem('userName', formData.username);
-      
-      // Redirect to main page
-      window.location.href = '/';
-    }, 1000);
+    try {
+      await login(formData);
+
+      // Return to the page that required sign-in, or the main page
+      navigate(from ? `${from.pathname}${from.search}${from.hash}` : '/', { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to sign in. Please try again.');
+      setFormData(prev => ({ ...prev, password: '' }));
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -63,6 +73,13 @@ const Login = () => {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleLogin} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="username">Username</Label>
                 <div className="relative">
@@ -108,13 +125,20 @@ const Login = () => {
             </form>
 
             {/* Demo Credentials */}
-            <div className="mt-6 p-4 bg-secondary/50 rounded-lg border border-border/50">
-              <p className="text-sm font-medium text-muted-foreground mb-2">Demo Credentials:</p>
-              <div className="space-y-1 text-sm">
-                <p><span className="font-medium">Faculty:</span> faculty / password</p>
-                <p><span className="font-medium">HOD:</span> hod / password</p>
+            {hasDemoAccounts && (
+              <div className="mt-6 p-4 bg-secondary/50 rounded-lg border border-border/50">
+                <p className="text-sm font-medium text-muted-foreground mb-2">Demo Credentials:</p>
+                <div className="space-y-1 text-sm">
+                  <p><span className="font-medium">Faculty:</span> faculty / password</p>
+                  <p><span className="font-medium">HOD:</span> hod / password</p>
+                  <p><span className="font-medium">Dean:</span> dean / password</p>
+                  <p><span className="font-medium">Club Coordinator:</span> coordinator / password</p>
+                  <p><span className="font-medium">Facilities Manager:</span> facilities / password</p>
+                  <p><span className="font-medium">Registrar:</span> registrar / password</p>
+                  <p><span className="font-medium">System Admin:</span> admin / password</p>
+                </div>
               </div>
-            </div>
+            )}
           </CardContent>
         </Card>
 
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the booking API server, e.g. `/api`. Unset to keep data in localStorage. */
+  readonly VITE_API_URL?: string;
+}